@@ -0,0 +1,33 @@
+// netlify/functions/sign-upload.ts
+// Emite firmas de subida solo para miembros con sesión válida de Supabase.
+import { createClient } from "@supabase/supabase-js";
+import { buildUploadSignature } from "../lib/cloudinarySign";
+
+export const config = { path: "/api/sign-upload" };
+
+export default async (req: Request) => {
+  if (req.method !== "POST") return new Response("Method not allowed", { status: 405 });
+
+  const env = process.env;
+  const supabaseUrl = env.SUPABASE_URL || env.VITE_SUPABASE_URL;
+  const supabaseAnonKey = env.SUPABASE_ANON_KEY || env.VITE_SUPABASE_ANON_KEY;
+  const cloudName = env.CLOUDINARY_CLOUD_NAME || env.VITE_CLOUDINARY_CLOUD_NAME;
+  const apiKey = env.CLOUDINARY_API_KEY;
+  const apiSecret = env.CLOUDINARY_API_SECRET;
+
+  if (!supabaseUrl || !supabaseAnonKey || !cloudName || !apiKey || !apiSecret) {
+    return new Response("Upload signing is not configured", { status: 500 });
+  }
+
+  const token = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return new Response("Inicia sesión para subir fotos.", { status: 401 });
+
+  const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return new Response("Sesión inválida.", { status: 401 });
+
+  return Response.json(buildUploadSignature({ cloudName, apiKey, apiSecret }));
+};
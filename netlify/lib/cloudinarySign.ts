@@ -0,0 +1,32 @@
+// netlify/lib/cloudinarySign.ts
+// Firma de subidas a Cloudinary (compartido por la Netlify Function y el dev server de Vite).
+import { createHash } from "node:crypto";
+
+export const UPLOAD_FOLDER = "pretesh";
+
+/** https://cloudinary.com/documentation/authentication_signatures */
+export function signCloudinaryParams(params: Record<string, string | number>, apiSecret: string) {
+  const toSign = Object.keys(params)
+    .sort()
+    .map((k) => `${k}=${params[k]}`)
+    .join("&");
+
+  return createHash("sha1").update(toSign + apiSecret).digest("hex");
+}
+
+export function buildUploadSignature(env: {
+  cloudName: string;
+  apiKey: string;
+  apiSecret: string;
+}) {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const folder = UPLOAD_FOLDER;
+
+  return {
+    cloud_name: env.cloudName,
+    api_key: env.apiKey,
+    timestamp,
+    folder,
+    signature: signCloudinaryParams({ folder, timestamp }, env.apiSecret),
+  };
+}
@@ -1,24 +1,122 @@
 // src/App.tsx
-import { useState } from "react";
-import { photos } from "./data/photos";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { usePhotos, type PhotoOrder } from "./hooks/usePhotos";
+import { useAlbums } from "./hooks/useAlbums";
+import { useCommentCounts } from "./hooks/useCommentCounts";
+import { useReactions } from "./hooks/useReactions";
 import GalleryGrid from "./components/GalleryGrid";
 import PhotoModal from "./components/PhotoModal";
 import Comments from "./components/Comments";
 import Chat from "./components/Chat";
 import AccountMenu from "./components/AccountMenu";
+import NotificationBell from "./components/NotificationBell";
 import FloatingChatButton from "./components/FloatingChatButton";
 import ChatDrawer from "./components/ChatDrawer";
+import UploadDialog from "./components/UploadDialog";
+import ReactionBar from "./components/ReactionBar";
+import SharePhotoButton from "./components/SharePhotoButton";
+import PhotoTagLayer from "./components/PhotoTagLayer";
+import PhotoTagList from "./components/PhotoTagList";
+import { usePhotoTags } from "./hooks/usePhotoTags";
+import { useProfiles } from "./hooks/useProfiles";
+import { useChatInbox } from "./hooks/useChatInbox";
+import { useAuth } from "./hooks/useAuth";
+import { albumPath, chatPath, groupChatPath, navigate, navigateBack, photoPath, scopePath, useRoute } from "./lib/router";
 
-type SortMode = "recent" | "comments";
+type SortMode = PhotoOrder;
 
 export default function App() {
-  const [selected, setSelected] = useState<string | null>(null);
+  // ✅ foto, álbum, persona y chat viven en la URL
+  // (/photo/:publicId, /album/:album, /tagged/:userId, /chat/:userId, /chat/group/:id)
+  const route = useRoute();
+  const album = route.album;
+  const tagged = route.tagged;
+  const scope = useMemo(() => ({ album, tagged }), [album, tagged]);
+  const selected = route.name === "photo" ? route.publicId : null;
+  const chatOpen = route.name === "chat";
+  const chatUserId = route.name === "chat" ? route.userId : null;
+  const chatGroupId = route.name === "chat" ? route.groupId : null;
+
   const [sort, setSort] = useState<SortMode>("recent");
+  const {
+    photos,
+    loading: photosLoading,
+    loadingMore: photosLoadingMore,
+    hasMore: photosHasMore,
+    error: photosError,
+    reload: reloadPhotos,
+    loadMore: loadMorePhotos,
+    addPhoto,
+  } = usePhotos({ album, tagged, order: sort });
+  const albums = useAlbums();
+  // ✅ conteos (comentarios, reacciones) solo de lo cargado (+ la foto abierta por enlace aunque no esté en la página)
+  const loadedPhotoIds = useMemo(() => {
+    const ids = photos.map((p) => p.public_id);
+    if (selected && !ids.includes(selected)) ids.push(selected);
+    return ids;
+  }, [photos, selected]);
+  const { counts: commentCounts, setCount: setCommentCount } = useCommentCounts(loadedPhotoIds);
+  const reactions = useReactions(loadedPhotoIds);
+
+  const [uploadOpen, setUploadOpen] = useState(false);
+  const { user } = useAuth();
+
+  const { profiles, byId: profilesById } = useProfiles();
+  const chatInbox = useChatInbox();
+  const [tagMode, setTagMode] = useState(false);
+
+  // ✅ usePhotos ya entrega el orden del servidor; en "comments"/"reactions" se
+  // reordena con los totales en vivo y se desempata por ese mismo orden (estable)
+  const sortedPhotos = useMemo(() => {
+    if (sort === "recent") return photos;
+
+    const totals = sort === "comments" ? commentCounts : reactions.totals;
+    return photos
+      .map((p, index) => ({ p, index, count: totals.get(p.public_id) ?? 0 }))
+      .sort((a, b) => b.count - a.count || a.index - b.index)
+      .map((x) => x.p);
+  }, [photos, sort, commentCounts, reactions.totals]);
+
+  const openPhoto = useCallback((id: string) => navigate(photoPath(id, scope)), [scope]);
+  // ✅ anterior/siguiente reemplaza la entrada: "atrás" sigue cerrando el modal
+  const switchPhoto = useCallback(
+    (id: string) => navigate(photoPath(id, scope), { replace: true }),
+    [scope]
+  );
+  const closePhoto = useCallback(() => navigateBack(scopePath(scope)), [scope]);
+  const closeChat = useCallback(() => navigateBack("/"), []);
+
+  const selectedIndex = selected ? sortedPhotos.findIndex((p) => p.public_id === selected) : -1;
+  const selectedPhoto = selectedIndex >= 0 ? sortedPhotos[selectedIndex] : null;
+  const prevId = selectedIndex > 0 ? sortedPhotos[selectedIndex - 1].public_id : null;
+  const nextId =
+    selectedIndex >= 0 && selectedIndex < sortedPhotos.length - 1
+      ? sortedPhotos[selectedIndex + 1].public_id
+      : null;
+
+  const photoTags = usePhotoTags(selected);
 
-  // ✅ Nuevo estado global del chat
-  const [chatOpen, setChatOpen] = useState(false);
+  // ✅ el modo etiquetar no se arrastra a la siguiente foto
+  useEffect(() => setTagMode(false), [selected]);
 
-  const sortedPhotos = sort === "recent" ? [...photos].reverse() : photos;
+  // ✅ "siguiente" en la última foto cargada trae la próxima página
+  useEffect(() => {
+    if (selectedIndex >= 0 && selectedIndex === sortedPhotos.length - 1 && photosHasMore) loadMorePhotos();
+  }, [selectedIndex, sortedPhotos.length, photosHasMore, loadMorePhotos]);
+
+  // ✅ la conversación elegida dentro del chat se refleja en la URL (sin apilar historial)
+  const onChatUserChange = useCallback(
+    (userId: string) => {
+      if (chatOpen && chatUserId !== userId) navigate(chatPath(userId), { replace: true });
+    },
+    [chatOpen, chatUserId]
+  );
+  const onChatGroupChange = useCallback(
+    (groupId: string) => {
+      if (chatOpen && chatGroupId !== groupId) navigate(groupChatPath(groupId), { replace: true });
+    },
+    [chatOpen, chatGroupId]
+  );
 
   return (
     <div className="appShell">
@@ -50,8 +148,23 @@ export default function App() {
               >
                 Más comentadas
               </button>
+
+              <button
+                type="button"
+                className={sort === "reactions" ? "segBtn active" : "segBtn"}
+                onClick={() => setSort("reactions")}
+              >
+                Más gustadas
+              </button>
             </div>
 
+            {user && (
+              <button type="button" className="btn" onClick={() => setUploadOpen(true)}>
+                Subir fotos
+              </button>
+            )}
+
+            <NotificationBell />
             <AccountMenu />
           </div>
         </div>
@@ -62,8 +175,56 @@ export default function App() {
         {/* ✅ Chat eliminado de aquí */}
 
         <main className="content">
-          <h1 className="pageTitle">Álbum</h1>
-          <GalleryGrid photos={sortedPhotos} onSelect={setSelected} />
+          <h1 className="pageTitle">
+            {tagged
+              ? tagged === user?.id
+                ? "Fotos donde salgo"
+                : `Fotos de ${profilesById.get(tagged)?.display_name || "Usuario"}`
+              : album
+                ? `Álbum · ${album}`
+                : "Álbum"}
+          </h1>
+
+          {albums.length > 1 && (
+            <nav className="albumChips">
+              <a
+                href="/"
+                className={!album && !tagged ? "albumChip active" : "albumChip"}
+                onClick={(e) => {
+                  e.preventDefault();
+                  navigate("/");
+                }}
+              >
+                Todas
+              </a>
+              {albums.map((a) => (
+                <a
+                  key={a.album}
+                  href={albumPath(a.album)}
+                  className={album === a.album ? "albumChip active" : "albumChip"}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    navigate(albumPath(a.album));
+                  }}
+                >
+                  {a.album} <span className="muted">{a.photo_count}</span>
+                </a>
+              ))}
+            </nav>
+          )}
+
+          <GalleryGrid
+            photos={sortedPhotos}
+            onSelect={openPhoto}
+            commentCounts={commentCounts}
+            reactionTotals={reactions.totals}
+            loading={photosLoading}
+            error={photosError}
+            onRetry={reloadPhotos}
+            hasMore={photosHasMore}
+            loadingMore={photosLoadingMore}
+            onLoadMore={loadMorePhotos}
+          />
         </main>
       </div>
 
@@ -87,19 +248,77 @@ export default function App() {
 
       {/* ================= CHAT FLOATING SYSTEM ================= */}
 
-      <FloatingChatButton
-        onClick={() => setChatOpen(true)}
-        unreadCount={0} // luego conectamos esto a Supabase
-      />
+      <FloatingChatButton onClick={() => navigate(chatPath())} unreadCount={chatInbox.total} />
 
-      <ChatDrawer open={chatOpen} onClose={() => setChatOpen(false)}>
-        <Chat />
+      <ChatDrawer open={chatOpen} onClose={closeChat}>
+        <Chat
+          userId={chatUserId}
+          onUserChange={onChatUserChange}
+          groupId={chatGroupId}
+          onGroupChange={onChatGroupChange}
+          active={chatOpen}
+          unreadByUser={chatInbox.byPeer}
+          onRead={chatInbox.markRead}
+          unreadByGroup={chatInbox.byGroup}
+          onGroupRead={chatInbox.markGroupRead}
+          subscribeMessages={chatInbox.subscribe}
+        />
       </ChatDrawer>
 
+      {/* ================= UPLOAD ================= */}
+      {uploadOpen && (
+        <UploadDialog onClose={() => setUploadOpen(false)} onUploaded={addPhoto} />
+      )}
+
       {/* ================= MODAL ================= */}
       {selected && (
-        <PhotoModal publicId={selected} onClose={() => setSelected(null)}>
-          <Comments photoId={selected} />
+        <PhotoModal
+          publicId={selected}
+          width={selectedPhoto?.width}
+          height={selectedPhoto?.height}
+          prevId={prevId}
+          nextId={nextId}
+          onNavigate={switchPhoto}
+          onClose={closePhoto}
+          actions={
+            <>
+              <ReactionBar
+                photoId={selected}
+                counts={reactions.counts.get(selected)}
+                hasReacted={reactions.hasReacted}
+                onToggle={reactions.toggle}
+                disabled={!user}
+              />
+              {user && (
+                <button
+                  type="button"
+                  className={tagMode ? "btn active" : "btn"}
+                  onClick={() => setTagMode((v) => !v)}
+                >
+                  {tagMode ? "Listo" : "Etiquetar"}
+                </button>
+              )}
+              <SharePhotoButton publicId={selected} />
+            </>
+          }
+          overlay={
+            <PhotoTagLayer
+              tags={photoTags.tags}
+              profiles={profiles}
+              profilesById={profilesById}
+              tagMode={tagMode}
+              onAdd={photoTags.addTag}
+            />
+          }
+        >
+          <PhotoTagList
+            tags={photoTags.tags}
+            profilesById={profilesById}
+            canRemove={photoTags.canRemove}
+            onRemove={photoTags.removeTag}
+            error={photoTags.error}
+          />
+          <Comments key={selected} photoId={selected} onCountChange={setCommentCount} />
         </PhotoModal>
       )}
     </div>
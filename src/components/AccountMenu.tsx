@@ -1,6 +1,9 @@
 // src/components/AccountMenu.tsx
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useAuth } from "../hooks/useAuth";
+import { useProfiles } from "../hooks/useProfiles";
+import { useUserRestrictions, type RestrictionKind } from "../hooks/useUserRestrictions";
+import { navigate, taggedPath } from "../lib/router";
 
 function getInitials(name?: string | null) {
   if (!name) return "U";
@@ -31,6 +34,12 @@ export default function AccountMenu() {
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // ✅ bloqueados/silenciados: lista con deshacer + alta desde aquí
+  const { byId: profileById, profiles } = useProfiles();
+  const restrictions = useUserRestrictions();
+  const [managing, setManaging] = useState(false);
+  const [restrictTarget, setRestrictTarget] = useState("");
+
   const rootRef = useRef<HTMLDivElement | null>(null);
   const [hoverKey, setHoverKey] = useState<string | null>(null);
 
@@ -43,6 +52,7 @@ export default function AccountMenu() {
       if (!el.contains(e.target as Node)) {
         setOpen(false);
         setEditing(false);
+        setManaging(false);
         setError(null);
       }
     };
@@ -51,6 +61,7 @@ export default function AccountMenu() {
       if (e.key === "Escape") {
         setOpen(false);
         setEditing(false);
+        setManaging(false);
         setError(null);
       }
     };
@@ -100,9 +111,19 @@ export default function AccountMenu() {
   const closeMenu = () => {
     setOpen(false);
     setEditing(false);
+    setManaging(false);
     setError(null);
   };
 
+  // candidatos para bloquear/silenciar: el resto de miembros sin restricción
+  const unrestricted = profiles.filter((p) => p.id !== user?.id && !restrictions.kindById.has(p.id));
+
+  const addRestriction = (kind: RestrictionKind) => {
+    if (!restrictTarget) return;
+    restrictions.restrict(restrictTarget, kind);
+    setRestrictTarget("");
+  };
+
   const menuButtonStyle: React.CSSProperties = {
     width: 38,
     height: 38,
@@ -325,6 +346,105 @@ export default function AccountMenu() {
                   </div>
                 )}
 
+                <button
+                  onMouseEnter={() => setHoverKey("tagged")}
+                  onMouseLeave={() => setHoverKey(null)}
+                  onClick={() => {
+                    navigate(taggedPath(user.id));
+                    closeMenu();
+                  }}
+                  style={{
+                    ...itemButtonBase,
+                    background: hoverKey === "tagged" ? COLORS.bgHover : itemButtonBase.background,
+                    marginBottom: 8,
+                  }}
+                >
+                  Fotos donde salgo
+                </button>
+
+                <button
+                  onMouseEnter={() => setHoverKey("restrictions")}
+                  onMouseLeave={() => setHoverKey(null)}
+                  onClick={() => setManaging((v) => !v)}
+                  style={{
+                    ...itemButtonBase,
+                    background: hoverKey === "restrictions" || managing ? COLORS.bgHover : itemButtonBase.background,
+                    marginBottom: 8,
+                  }}
+                >
+                  Bloqueados y silenciados
+                  {restrictions.restrictions.length > 0 && ` (${restrictions.restrictions.length})`}
+                </button>
+
+                {managing && (
+                  <div style={{ marginBottom: 10 }}>
+                    <div style={{ fontSize: 12, color: COLORS.muted2, marginBottom: 8 }}>
+                      Bloquear corta los mensajes directos en ambos sentidos y oculta sus comentarios. Silenciar quita
+                      avisos y contadores de no leídos.
+                    </div>
+
+                    {restrictions.restrictions.length === 0 ? (
+                      <div style={{ fontSize: 13, color: COLORS.muted, marginBottom: 8 }}>No hay nadie en la lista.</div>
+                    ) : (
+                      <div style={{ display: "flex", flexDirection: "column", gap: 6, maxHeight: 180, overflow: "auto", marginBottom: 8 }}>
+                        {restrictions.restrictions.map((r) => (
+                          <div key={r.target_id} style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}>
+                            <span style={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                              {profileById.get(r.target_id)?.display_name || "Usuario"}
+                            </span>
+                            <span style={{ fontSize: 12, color: COLORS.muted2 }}>
+                              {r.kind === "block" ? "Bloqueado" : "Silenciado"}
+                            </span>
+                            <button
+                              onClick={() => restrictions.unrestrict(r.target_id)}
+                              style={{ ...itemButtonBase, width: "auto", padding: "4px 8px", fontSize: 12 }}
+                            >
+                              {r.kind === "block" ? "Desbloquear" : "Quitar silencio"}
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {unrestricted.length > 0 && (
+                      <>
+                        <select
+                          value={restrictTarget}
+                          onChange={(e) => setRestrictTarget(e.target.value)}
+                          style={{ ...inputStyle, marginBottom: 6 }}
+                        >
+                          <option value="">Elegir miembro…</option>
+                          {unrestricted.map((p) => (
+                            <option key={p.id} value={p.id}>
+                              {p.display_name || "Usuario"}
+                            </option>
+                          ))}
+                        </select>
+                        <div style={{ display: "flex", gap: 8 }}>
+                          <button
+                            onClick={() => addRestriction("mute")}
+                            disabled={!restrictTarget}
+                            style={{ ...itemButtonBase, flex: 1, textAlign: "center", padding: "6px 8px" }}
+                          >
+                            Silenciar
+                          </button>
+                          <button
+                            onClick={() => addRestriction("block")}
+                            disabled={!restrictTarget}
+                            style={{ ...itemButtonBase, flex: 1, textAlign: "center", padding: "6px 8px" }}
+                          >
+                            Bloquear
+                          </button>
+                        </div>
+                      </>
+                    )}
+
+                    {restrictions.error && (
+                      <div style={{ marginTop: 8, fontSize: 12, color: "rgba(255,120,120,0.92)" }}>{restrictions.error}</div>
+                    )}
+                  </div>
+                )}
+
                 <button
                   onMouseEnter={() => setHoverKey("signout")}
                   onMouseLeave={() => setHoverKey(null)}
@@ -1,7 +1,45 @@
 // src/components/Chat.tsx
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
 import { supabase } from "../lib/supabaseClient";
 import { useAuth } from "../hooks/useAuth";
+import { useProfiles } from "../hooks/useProfiles";
+import { useMentionAutocomplete } from "../hooks/useMentionAutocomplete";
+import { usePageVisible } from "../hooks/usePageVisible";
+import { useOnlineUsers } from "../hooks/useOnlineUsers";
+import { useGroupChats, type GroupChat } from "../hooks/useGroupChats";
+import { useChatOutbox, type OutboxEntry } from "../hooks/useChatOutbox";
+import { useUserRestrictions } from "../hooks/useUserRestrictions";
+import type { InboxListener } from "../hooks/useChatInbox";
+import { splitHighlight, useMessageSearch, type MessageSearchHit } from "../hooks/useMessageSearch";
+import { decodeMentions, mentionsToText } from "../lib/mentions";
+import { buildImageUrl, buildSrcSet, IMAGE_PRESETS } from "../lib/cloudinary";
+import { photoMessageBody, photoMessageComment } from "../lib/chatPhotos";
+import { navigate, photoPath } from "../lib/router";
+import MentionSuggestions from "./MentionSuggestions";
+import MentionText from "./MentionText";
+import GroupMembersPanel from "./GroupMembersPanel";
+
+type Props = {
+  /** conversación pedida por la URL (/chat/:userId) */
+  userId?: string | null;
+  /** se llama cuando el usuario elige otra conversación en la lista */
+  onUserChange?: (userId: string) => void;
+  /** grupo pedido por la URL (/chat/group/:id) */
+  groupId?: string | null;
+  onGroupChange?: (groupId: string) => void;
+  /** el drawer está abierto (el componente sigue montado cuando se cierra) */
+  active?: boolean;
+  /** DMs sin leer por remitente (useChatInbox en App) */
+  unreadByUser?: Map<string, number>;
+  /** marca leída la conversación con ese usuario */
+  onRead?: (userId: string) => void;
+  /** mensajes de grupo sin leer por conversación */
+  unreadByGroup?: Map<string, number>;
+  onGroupRead?: (groupId: string) => void;
+  /** mensajes en vivo del canal único del usuario (useChatInbox en App) */
+  subscribeMessages?: (listener: InboxListener) => () => void;
+};
 
 type Profile = {
   id: string;
@@ -9,27 +47,158 @@ type Profile = {
   avatar_url: string | null;
 };
 
+/** DM (receiver_id) o mensaje de grupo (conversation_id): nunca ambos. */
 type Message = {
   id: string;
   sender_id: string;
-  receiver_id: string;
+  receiver_id: string | null;
+  conversation_id: string | null;
+  /** foto del álbum compartida (public_id) */
+  photo_id: string | null;
   body: string;
   created_at: string;
+  edited_at: string | null;
+  /** tombstone: el cuerpo queda vacío */
+  deleted_at: string | null;
+  /** mensaje citado (de la misma conversación) */
+  reply_to_id: string | null;
 };
 
-function samePair(m: Message, me: string, other: string) {
-  return (
-    (m.sender_id === me && m.receiver_id === other) ||
-    (m.sender_id === other && m.receiver_id === me)
-  );
+/** Conversación abierta: DM con un usuario o grupo/canal. */
+type ChatTarget = { kind: "dm"; id: string } | { kind: "group"; id: string };
+
+/** Fila de la bandeja: conversación con `peer_id` y su último mensaje. */
+type Conversation = {
+  peer_id: string;
+  last: Pick<Message, "id" | "sender_id" | "body" | "created_at">;
+};
+
+/** Fila de la bandeja ya resuelta (DM o grupo) para pintar. */
+type InboxItem = {
+  key: string;
+  target: ChatTarget;
+  title: string;
+  last: Conversation["last"] | null;
+  at: string;
+  unread: number;
+};
+
+// ✅ la conversación tocada pasa arriba (orden por actividad)
+function touchConversation(prev: Conversation[], peerId: string, m: Message): Conversation[] {
+  const cur = prev.find((c) => c.peer_id === peerId);
+  if (cur && new Date(cur.last.created_at).getTime() > new Date(m.created_at).getTime()) return prev;
+
+  const last = { id: m.id, sender_id: m.sender_id, body: m.body, created_at: m.created_at };
+  return [{ peer_id: peerId, last }, ...prev.filter((c) => c.peer_id !== peerId)];
+}
+
+// hoy → hora; antes → fecha corta
+function formatInboxTime(iso: string) {
+  const d = new Date(iso);
+  const today = new Date().toDateString() === d.toDateString();
+  return today
+    ? d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : d.toLocaleDateString([], { day: "2-digit", month: "short" });
+}
+
+const targetKey = (t: ChatTarget) => `${t.kind}:${t.id}`;
+
+// conversación (targetKey) a la que pertenece un mensaje, vista por `me`
+function messageChatKey(m: Pick<Message, "sender_id" | "receiver_id" | "conversation_id">, me: string) {
+  if (m.conversation_id) return targetKey({ kind: "group", id: m.conversation_id });
+  const peer = m.sender_id === me ? m.receiver_id : m.sender_id;
+  return peer ? targetKey({ kind: "dm", id: peer }) : null;
+}
+
+// pendiente de la cola de salida → burbuja (sin foto, edición ni borrado)
+function outboxMessage(e: OutboxEntry): Message {
+  return {
+    id: e.id,
+    sender_id: e.sender_id,
+    receiver_id: e.receiver_id,
+    conversation_id: e.conversation_id,
+    photo_id: null,
+    body: e.body,
+    created_at: e.created_at,
+    edited_at: null,
+    deleted_at: null,
+    reply_to_id: e.reply_to_id,
+  };
+}
+
+// ✅ keyset (created_at, id) para `.or()`: los mensajes con la misma hora no se
+// pierden en el borde de una página
+type Cursor = Pick<Message, "created_at" | "id">;
+const beforeCursor = (c: Cursor) =>
+  `created_at.lt."${c.created_at}",and(created_at.eq."${c.created_at}",id.lt.${c.id})`;
+const fromCursor = (c: Cursor) =>
+  `created_at.gt."${c.created_at}",and(created_at.eq."${c.created_at}",id.gte.${c.id})`;
+
+// ✅ canal determinístico: dm:<min>:<max> para DMs, group:<id> para N participantes
+function chatChannel(me: string, t: ChatTarget) {
+  if (t.kind === "group") return `group:${t.id}`;
+  return me < t.id ? `dm:${me}:${t.id}` : `dm:${t.id}:${me}`;
 }
 
-// ✅ canal determinístico: dm:<min>:<max>
-function dmChannel(me: string, other: string) {
-  return me < other ? `dm:${me}:${other}` : `dm:${other}:${me}`;
+const NO_UNREAD = new Map<string, number>();
+
+/** broadcast "typing" en el canal de la conversación */
+type TypingPayload = { user_id: string; typing: boolean };
+
+// como mucho un aviso de "escribiendo" cada X ms mientras se teclea
+const TYPING_THROTTLE_MS = 2500;
+// sin avisos nuevos durante X ms → se deja de mostrar
+const TYPING_TTL_MS = 6000;
+
+// mensajes por página (los más nuevos primero; "anteriores" al subir)
+const MESSAGES_PAGE_SIZE = 50;
+// px desde arriba a partir de los cuales se pide la página anterior
+const LOAD_OLDER_THRESHOLD = 80;
+
+// mensajes antes/después del encontrado al abrir un resultado de búsqueda
+const SEARCH_CONTEXT_SIZE = 25;
+
+const MESSAGE_COLUMNS =
+  "id, sender_id, receiver_id, conversation_id, photo_id, body, created_at, edited_at, deleted_at, reply_to_id";
+
+// ✅ foto compartida: miniatura que abre la foto en el modal
+function PhotoCard({ publicId }: { publicId: string }) {
+  const { transform, widths, sizes } = IMAGE_PRESETS.chat;
+  const href = photoPath(publicId);
+
+  return (
+    <a
+      href={href}
+      className="chatPhotoCard"
+      title="Ver foto"
+      onClick={(e) => {
+        e.preventDefault();
+        navigate(href);
+      }}
+    >
+      <img
+        src={buildImageUrl(publicId, { ...transform, width: widths[0] })}
+        srcSet={buildSrcSet(publicId, widths, transform)}
+        sizes={sizes}
+        alt="Foto del álbum"
+        loading="lazy"
+      />
+    </a>
+  );
 }
 
-export default function Chat() {
+export default function Chat({
+  userId = null,
+  onUserChange,
+  groupId = null,
+  onGroupChange,
+  active = true,
+  unreadByUser = NO_UNREAD,
+  onRead,
+  unreadByGroup = NO_UNREAD,
+  onGroupRead,
+  subscribeMessages,
+}: Props) {
   const { user, profile, loading: authLoading } = useAuth();
   const me = user?.id ?? null;
 
@@ -54,7 +223,19 @@ export default function Chat() {
   }, []);
 
   const [profiles, setProfiles] = useState<Profile[]>([]);
-  const [selected, setSelected] = useState<Profile | null>(null);
+  const [target, setTarget] = useState<ChatTarget | null>(null);
+
+  // ✅ bandeja: conversaciones existentes + selector "nuevo chat" para el resto
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [picking, setPicking] = useState(false);
+  const [pickQuery, setPickQuery] = useState("");
+
+  // ✅ grupos + canal general
+  const groupChats = useGroupChats();
+  const { groups, touchGroup } = groupChats;
+  const [newGroupName, setNewGroupName] = useState("");
+  const [newGroupMembers, setNewGroupMembers] = useState<Set<string>>(() => new Set());
+  const [showMembers, setShowMembers] = useState(false);
 
   // ✅ narrow navigation (WhatsApp style)
   const [view, setView] = useState<"list" | "chat">("list");
@@ -64,8 +245,108 @@ export default function Chat() {
   const [text, setText] = useState("");
   const [error, setError] = useState("");
 
+  // ✅ cola de salida: al confirmarse, el mensaje pasa a la conversación abierta
+  // (después Realtime lo reemplaza por la fila del servidor)
+  const outbox = useChatOutbox(me, (e) => {
+    if (!me || activeChatRef.current !== messageChatKey(e, me) || hasNewerRef.current) return;
+    setMessages((prev) => (prev.some((m) => m.id === e.id) ? prev : [...prev, outboxMessage(e)]));
+  });
+
+  // ✅ editar y responder reutilizan el composer
+  const [editing, setEditing] = useState<Message | null>(null);
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  // citas a mensajes fuera de la página cargada (se piden aparte, una vez)
+  const [quoted, setQuoted] = useState<Map<string, Message>>(() => new Map());
+  const quotedReqRef = useRef(new Set<string>());
+  // mensaje citado al que se saltó (resaltado un momento)
+  const [flashId, setFlashId] = useState<string | null>(null);
+  const jumpToRef = useRef<string | null>(null);
+
+  // ✅ "visto": hasta cuándo leyó el otro esta conversación (dm_reads)
+  const [peerReadAt, setPeerReadAt] = useState<string | null>(null);
+  const pageVisible = usePageVisible();
+
+  // ✅ presencia: quién tiene la app abierta; "escribiendo…" por broadcast en el canal de la conversación
+  const online = useOnlineUsers();
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const typingSentAtRef = useRef(0);
+  const typingTimersRef = useRef(new Map<string, number>());
+  const [typingIds, setTypingIds] = useState<string[]>([]);
+
+  function sendTyping(typing: boolean) {
+    const channel = channelRef.current;
+    if (!channel || !me) return;
+
+    if (typing) {
+      const now = Date.now();
+      if (now - typingSentAtRef.current < TYPING_THROTTLE_MS) return;
+      typingSentAtRef.current = now;
+    } else {
+      // solo se avisa "paré" si antes se avisó "escribiendo"
+      if (!typingSentAtRef.current) return;
+      typingSentAtRef.current = 0;
+    }
+
+    const payload: TypingPayload = { user_id: me, typing };
+    channel.send({ type: "broadcast", event: "typing", payload });
+  }
+
+  function setPeerTyping(userId: string, typing: boolean) {
+    const timers = typingTimersRef.current;
+    window.clearTimeout(timers.get(userId));
+    timers.delete(userId);
+
+    if (typing) {
+      timers.set(userId, window.setTimeout(() => setPeerTyping(userId, false), TYPING_TTL_MS));
+    }
+
+    setTypingIds((prev) => {
+      const has = prev.includes(userId);
+      if (typing) return has ? prev : [...prev, userId];
+      return has ? prev.filter((id) => id !== userId) : prev;
+    });
+  }
+
+  function clearTyping() {
+    typingTimersRef.current.forEach((timer) => window.clearTimeout(timer));
+    typingTimersRef.current.clear();
+    setTypingIds([]);
+  }
+
+  const changeText = (value: string) => {
+    setText(value);
+    sendTyping(value.trim() !== "");
+  };
+
+  // ✅ @menciones: en un DM solo se notifica al otro participante; en grupos, a los miembros
+  const { profiles: allProfiles } = useProfiles();
+  const mention = useMentionAutocomplete<HTMLInputElement>({
+    value: text,
+    onChange: changeText,
+    profiles: allProfiles,
+    excludeId: me,
+  });
+
+  // ✅ paginación hacia atrás
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // abierto en un resultado de búsqueda: faltan los más recientes (no se anexa en vivo)
+  const [hasNewer, setHasNewer] = useState(false);
+  const hasNewerRef = useRef(false);
+  hasNewerRef.current = hasNewer;
+
+  // ✅ búsqueda en todo el historial
+  const [searchQuery, setSearchQuery] = useState("");
+  const search = useMessageSearch(searchQuery);
+  // mensaje a mostrar al abrir la conversación (resultado de búsqueda)
+  const focusMessageRef = useRef<{ key: string; id: string } | null>(null);
+
   // ✅ Auto-scroll anchor
   const bottomRef = useRef<HTMLDivElement | null>(null);
+  const listRef = useRef<HTMLDivElement | null>(null);
+  // distancia al fondo antes de anteponer una página (para no mover la vista)
+  const prependAnchorRef = useRef<number | null>(null);
+  const lastScrollTopRef = useRef(0);
 
   const headerName = useMemo(() => {
     if (!user) return "";
@@ -77,6 +358,19 @@ export default function Chat() {
     );
   }, [user, profile]);
 
+  const profileById = useMemo(() => new Map(profiles.map((p) => [p.id, p])), [profiles]);
+
+  // ✅ bloqueados/silenciados (el servidor rechaza los DMs con bloqueo en cualquier sentido)
+  const restrictions = useUserRestrictions();
+  const { kindById } = restrictions;
+
+  // conversación abierta: perfil (DM) o grupo
+  const selected = target?.kind === "dm" ? profileById.get(target.id) ?? null : null;
+  const selectedGroup: GroupChat | null =
+    target?.kind === "group" ? groups.find((g) => g.id === target.id) ?? null : null;
+  const selectedKind = selected ? kindById.get(selected.id) ?? null : null;
+  const canWrite = (!!selected && selectedKind !== "block") || !!selectedGroup;
+
   async function loadProfiles() {
     if (!me) return;
     setError("");
@@ -88,7 +382,7 @@ export default function Chat() {
 
     if (error) {
       setProfiles([]);
-      setSelected(null);
+      setTarget(null);
       return setError(error.message);
     }
 
@@ -96,27 +390,57 @@ export default function Chat() {
     const others = list.filter((p) => p.id !== me);
 
     setProfiles(others);
-    setSelected((prev) => {
-      if (prev && others.some((o) => o.id === prev.id)) return prev;
-      return others.length ? others[0] : null;
+    // ✅ sin autoselección: se abre lo pedido por la URL o lo que ya estaba abierto
+    setTarget((prev) => {
+      if (userId && others.some((o) => o.id === userId)) return { kind: "dm", id: userId };
+      if (groupId) return { kind: "group", id: groupId };
+      if (prev?.kind === "dm" && !others.some((o) => o.id === prev.id)) return null;
+      return prev;
     });
+    if ((userId && others.some((o) => o.id === userId)) || groupId) setView("chat");
   }
 
-  async function loadMessages(otherId: string) {
+  async function loadConversations() {
+    if (!me) return;
+
+    const { data, error } = await supabase.rpc("dm_conversations");
+    if (error) return setError(error.message);
+
+    type Row = { peer_id: string; last_message_id: string; last_sender_id: string; last_body: string; last_at: string };
+    setConversations(
+      ((data ?? []) as Row[])
+        .map((r) => ({
+          peer_id: r.peer_id,
+          last: { id: r.last_message_id, sender_id: r.last_sender_id, body: r.last_body, created_at: r.last_at },
+        }))
+        .sort((a, b) => new Date(b.last.created_at).getTime() - new Date(a.last.created_at).getTime())
+    );
+  }
+
+  function targetQuery(t: ChatTarget) {
+    const q = supabase.from("messages").select(MESSAGE_COLUMNS);
+    if (t.kind === "group") return q.eq("conversation_id", t.id);
+
+    return q.or(
+      `and(sender_id.eq.${me},receiver_id.eq.${t.id}),and(sender_id.eq.${t.id},receiver_id.eq.${me})`
+    );
+  }
+
+  async function loadMessages(t: ChatTarget) {
     if (!me) return;
 
     setError("");
     setLoadingMessages(true);
 
     const reqId = ++loadReqRef.current;
+    setHasOlder(false);
+    setLoadingOlder(false);
+    setHasNewer(false);
 
-    const { data, error } = await supabase
-      .from("messages")
-      .select("id, sender_id, receiver_id, body, created_at")
-      .or(
-        `and(sender_id.eq.${me},receiver_id.eq.${otherId}),and(sender_id.eq.${otherId},receiver_id.eq.${me})`
-      )
-      .order("created_at", { ascending: true });
+    const { data, error } = await targetQuery(t)
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(MESSAGES_PAGE_SIZE);
 
     // ✅ ignore stale response (user changed chat)
     if (reqId !== loadReqRef.current) return;
@@ -126,127 +450,496 @@ export default function Chat() {
       return setError(error.message);
     }
 
-    setMessages((data ?? []) as Message[]);
+    const page = (data ?? []) as Message[];
+    setMessages(page.reverse());
+    setHasOlder(page.length === MESSAGES_PAGE_SIZE);
     setLoadingMessages(false);
   }
 
+  async function loadOlder() {
+    if (!me || !target || !hasOlder || loadingOlder || loadingMessages) return;
+
+    const oldest = messages[0];
+    if (!oldest) return;
+
+    const t = target;
+    // ✅ misma guarda: si cambia el chat (loadMessages incrementa), se descarta
+    const reqId = loadReqRef.current;
+    setLoadingOlder(true);
+
+    const { data, error } = await targetQuery(t)
+      .or(beforeCursor(oldest))
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(MESSAGES_PAGE_SIZE);
+
+    if (reqId !== loadReqRef.current || activeChatRef.current !== targetKey(t)) return;
+
+    setLoadingOlder(false);
+    if (error) return setError(error.message);
+
+    const page = ((data ?? []) as Message[]).reverse();
+    const el = listRef.current;
+    if (el) prependAnchorRef.current = el.scrollHeight - el.scrollTop;
+
+    setMessages((prev) => {
+      const seen = new Set(prev.map((m) => m.id));
+      return [...page.filter((m) => !seen.has(m.id)), ...prev];
+    });
+    setHasOlder(page.length === MESSAGES_PAGE_SIZE);
+  }
+
+  // ✅ resultado de búsqueda: el mensaje con su contexto (antes y después)
+  async function loadAround(t: ChatTarget, id: string) {
+    if (!me) return;
+
+    setError("");
+    setLoadingMessages(true);
+
+    const reqId = ++loadReqRef.current;
+    setHasOlder(false);
+    setLoadingOlder(false);
+    setHasNewer(false);
+
+    const hit = await supabase.from("messages").select("created_at").eq("id", id).maybeSingle();
+    if (reqId !== loadReqRef.current) return;
+
+    const at = (hit.data as { created_at: string } | null)?.created_at;
+    if (hit.error || !at) {
+      // ya no existe (o no es visible): la conversación normal
+      return loadMessages(t);
+    }
+
+    const cursor = { created_at: at, id };
+    const [before, after] = await Promise.all([
+      targetQuery(t)
+        .or(beforeCursor(cursor))
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(SEARCH_CONTEXT_SIZE),
+      targetQuery(t)
+        .or(fromCursor(cursor))
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .limit(SEARCH_CONTEXT_SIZE),
+    ]);
+
+    if (reqId !== loadReqRef.current) return;
+
+    const err = before.error ?? after.error;
+    if (err) {
+      setLoadingMessages(false);
+      return setError(err.message);
+    }
+
+    const older = ((before.data ?? []) as Message[]).reverse();
+    const newer = (after.data ?? []) as Message[];
+
+    jumpToRef.current = id;
+    setMessages([...older, ...newer]);
+    setHasOlder(older.length === SEARCH_CONTEXT_SIZE);
+    setHasNewer(newer.length === SEARCH_CONTEXT_SIZE);
+    setLoadingMessages(false);
+    flash(id);
+  }
+
   // ✅ when changes me → load users
   useEffect(() => {
     if (!me) {
       setProfiles([]);
-      setSelected(null);
+      setTarget(null);
       setMessages([]);
+      setConversations([]);
       setLoadingMessages(false);
       setView("list");
       return;
     }
     loadProfiles();
+    loadConversations();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [me]);
 
+  // ✅ deep link: /chat/:userId o /chat/group/:id abre esa conversación
+  useEffect(() => {
+    if (!userId) return;
+    if (!profiles.some((p) => p.id === userId)) return;
+
+    setTarget((prev) => (prev?.kind === "dm" && prev.id === userId ? prev : { kind: "dm", id: userId }));
+    setView("chat");
+  }, [userId, profiles]);
+
+  useEffect(() => {
+    if (!groupId || !me) return;
+
+    setTarget((prev) => (prev?.kind === "group" && prev.id === groupId ? prev : { kind: "group", id: groupId }));
+    setView("chat");
+  }, [groupId, me]);
+
+  const targetId = target ? targetKey(target) : null;
+
   // ✅ when changes selected → clear instantly + load messages
   useEffect(() => {
-    if (!me || !selected?.id) {
+    setShowMembers(false);
+    setEditing(null);
+    setReplyTo(null);
+    setQuoted(new Map());
+    quotedReqRef.current = new Set();
+
+    if (!me || !target) {
+      activeChatRef.current = null;
       setMessages([]);
       setLoadingMessages(false);
       return;
     }
 
-    activeChatRef.current = selected.id; // ✅ mark active chat
+    activeChatRef.current = targetKey(target); // ✅ mark active chat
     setMessages([]); // ✅ prevents showing previous chat
-    loadMessages(selected.id);
+
+    const focus = focusMessageRef.current;
+    focusMessageRef.current = null;
+    if (focus?.key === targetKey(target)) loadAround(target, focus.id);
+    else loadMessages(target);
+
+    setPeerReadAt(null);
+    if (target.kind !== "dm") return;
+
+    const chatKey = targetKey(target);
+    supabase
+      .from("dm_reads")
+      .select("last_read_at")
+      .eq("user_id", target.id)
+      .eq("peer_id", me)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (activeChatRef.current !== chatKey) return;
+        setPeerReadAt((data as { last_read_at: string } | null)?.last_read_at ?? null);
+      });
 
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [me, selected?.id]);
+  }, [me, targetId]);
 
-  // ✅ realtime subscription (guarded)
+  // ✅ canal de la conversación abierta: "escribiendo…" y, en DMs, el "visto" del otro
   useEffect(() => {
-    if (!me || !selected?.id) return;
+    if (!me || !target) return;
 
-    const chatId = selected.id;
-    activeChatRef.current = chatId;
+    const t = target;
+    const chatKey = targetKey(t);
+    activeChatRef.current = chatKey;
 
     const channel = supabase
-      .channel(dmChannel(me, chatId))
-      .on(
+      .channel(chatChannel(me, t), { config: { broadcast: { self: false } } })
+      .on("broadcast", { event: "typing" }, ({ payload }) => {
+        if (activeChatRef.current !== chatKey) return;
+        const { user_id, typing } = payload as TypingPayload;
+        if (!user_id || user_id === me) return;
+        // en un DM solo cuenta el otro participante
+        if (t.kind === "dm" && user_id !== t.id) return;
+        setPeerTyping(user_id, !!typing);
+      });
+
+    if (t.kind === "dm") {
+      channel.on(
         "postgres_changes",
-        { event: "INSERT", schema: "public", table: "messages" },
+        { event: "*", schema: "public", table: "dm_reads", filter: `peer_id=eq.${me}` },
         (payload) => {
-          // ✅ ignore inserts for a chat that's no longer active
-          if (activeChatRef.current !== chatId) return;
-
-          const m = payload.new as Message;
-          if (!samePair(m, me, chatId)) return;
-
-          setMessages((prev) => {
-            if (prev.some((x) => x.id === m.id)) return prev;
-            return [...prev, m];
-          });
+          const r = payload.new as { user_id?: string; last_read_at?: string };
+          if (activeChatRef.current !== chatKey || r.user_id !== t.id || !r.last_read_at) return;
+          setPeerReadAt(r.last_read_at);
         }
-      )
-      .subscribe();
+      );
+    }
+
+    channel.subscribe();
+    channelRef.current = channel;
 
     return () => {
+      // ✅ al cambiar de conversación: avisar que paré y olvidar quién escribía
+      sendTyping(false);
+      channelRef.current = null;
+      typingSentAtRef.current = 0;
+      clearTyping();
       supabase.removeChannel(channel);
     };
-  }, [me, selected?.id]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [me, targetId]);
 
-  // ✅ Auto-scroll when messages change
+  // ✅ mensajes en vivo del canal del usuario (useChatInbox en App): bandeja + conversación abierta
   useEffect(() => {
-    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, selected?.id]);
+    if (!me || !subscribeMessages) return;
+
+    return subscribeMessages((event, row) => {
+      const m = row as Message;
+
+      // UPDATE: una edición o borrado del último mensaje cambia la vista previa
+      if (m.conversation_id) touchGroup(m.conversation_id, m);
+      else {
+        const peer = m.sender_id === me ? m.receiver_id : m.sender_id;
+        if (peer) setConversations((prev) => touchConversation(prev, peer, m));
+      }
+
+      // ✅ ignore events for a chat that's no longer active
+      if (activeChatRef.current !== messageChatKey(m, me)) return;
+
+      if (event === "UPDATE") {
+        applyUpdate(m);
+        return;
+      }
 
-  // ✅ "unread" naive (UX only; not real read-state)
-  const unreadByUser = useMemo(() => {
-    if (!me) return new Map<string, number>();
+      // quien envía ya no está escribiendo
+      if (m.sender_id !== me) setPeerTyping(m.sender_id, false);
+      // viendo un tramo antiguo: el nuevo llegará al volver a lo reciente
+      if (hasNewerRef.current) return;
 
-    const map = new Map<string, number>();
-    for (const m of messages) {
-      if (m.receiver_id !== me) continue;
-      const other = m.sender_id;
-      map.set(other, (map.get(other) ?? 0) + 1);
+      setMessages((prev) => {
+        // ✅ el optimista se reemplaza por la fila del servidor (created_at real, para el "visto")
+        if (prev.some((x) => x.id === m.id)) return prev.map((x) => (x.id === m.id ? m : x));
+        return [...prev, m];
+      });
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [me, subscribeMessages, touchGroup]);
+
+  // ✅ lo que el servidor aún no confirmó en esta conversación va al final
+  const pending = useMemo(
+    () =>
+      me && target
+        ? outbox.entries.filter(
+            (e) => messageChatKey(e, me) === targetKey(target) && !messages.some((m) => m.id === e.id)
+          )
+        : [],
+    [outbox.entries, messages, me, target]
+  );
+  const pendingById = useMemo(() => new Map(pending.map((e) => [e.id, e])), [pending]);
+  const shownMessages = pending.length > 0 ? [...messages, ...pending.map(outboxMessage)] : messages;
+
+  // ✅ Auto-scroll when messages change (salvo al anteponer una página: se conserva la posición)
+  useLayoutEffect(() => {
+    const jump = jumpToRef.current;
+    if (jump) {
+      jumpToRef.current = null;
+      prependAnchorRef.current = null;
+      document.getElementById(`msg-${jump}`)?.scrollIntoView({ block: "center" });
+      return;
     }
-    return map;
-  }, [messages, me]);
 
-  async function send() {
-    if (!me || !selected?.id) return;
-    const body = text.trim();
+    const el = listRef.current;
+    if (el && prependAnchorRef.current != null) {
+      el.scrollTop = el.scrollHeight - prependAnchorRef.current;
+      prependAnchorRef.current = null;
+      return;
+    }
+
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages, pending.length, targetId]);
+
+  // ✅ leída = conversación a la vista (drawer abierto, pestaña visible, mensajes cargados)
+  const selectedUnread = !target
+    ? 0
+    : target.kind === "dm"
+      ? unreadByUser.get(target.id) ?? 0
+      : unreadByGroup.get(target.id) ?? 0;
+  const chatVisible = active && pageVisible && (!isNarrow || view === "chat");
+
+  useEffect(() => {
+    if (!target || !chatVisible || loadingMessages || selectedUnread === 0) return;
+    if (target.kind === "dm") onRead?.(target.id);
+    else onGroupRead?.(target.id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [targetId, chatVisible, loadingMessages, selectedUnread]);
+
+  // ✅ drawer cerrado o pestaña oculta: nadie me ve escribir
+  useEffect(() => {
+    if (!chatVisible) sendTyping(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [chatVisible]);
+
+  const seenAt = peerReadAt ? new Date(peerReadAt).getTime() : 0;
+
+  function send() {
+    if (!me || !target || !canWrite) return;
+    if (editing) return saveEdit(editing);
+
+    const body = mention.encode(text.trim());
     if (!body) return;
 
     setError("");
     setText("");
+    mention.reset();
+    sendTyping(false);
 
     const id = crypto.randomUUID();
+    const t = target;
+    const reply = replyTo;
+    setReplyTo(null);
+    if (hasNewer) loadMessages(t);
 
     const optimistic: Message = {
       id,
       sender_id: me,
-      receiver_id: selected.id,
+      receiver_id: t.kind === "dm" ? t.id : null,
+      conversation_id: t.kind === "group" ? t.id : null,
+      photo_id: null,
       body,
       created_at: new Date().toISOString(),
+      edited_at: null,
+      deleted_at: null,
+      reply_to_id: reply?.id ?? null,
     };
 
-    setMessages((prev) => [...prev, optimistic]);
+    if (t.kind === "dm") setConversations((prev) => touchConversation(prev, t.id, optimistic));
+    else touchGroup(t.id, optimistic);
 
-    const { error } = await supabase.from("messages").insert({
+    // ✅ nada se pierde: si falla queda en la cola ("Reintentar", o "Editar" si el servidor lo rechaza)
+    outbox.enqueue({
       id,
       sender_id: me,
-      receiver_id: selected.id,
+      receiver_id: optimistic.receiver_id,
+      conversation_id: optimistic.conversation_id,
+      reply_to_id: optimistic.reply_to_id,
       body,
+      created_at: optimistic.created_at,
     });
+  }
 
+  // ✅ edición/borrado (propios o de otros, vía Realtime UPDATE)
+  function applyUpdate(m: Message) {
+    setMessages((prev) => prev.map((x) => (x.id === m.id ? m : x)));
+    setQuoted((prev) => (prev.has(m.id) ? new Map(prev).set(m.id, m) : prev));
+    setReplyTo((cur) => (cur?.id === m.id ? (m.deleted_at ? null : m) : cur));
+  }
+
+  async function saveEdit(m: Message) {
+    const encoded = mention.encode(text.trim());
+    // en una foto compartida se edita el comentario (puede quedar vacío)
+    const body = m.photo_id ? photoMessageBody(encoded) : encoded;
+    if (!body) return;
+
+    setError("");
+    setText("");
+    mention.reset();
+    setEditing(null);
+    sendTyping(false);
+    if (body === m.body) return;
+
+    setMessages((prev) =>
+      prev.map((x) => (x.id === m.id ? { ...x, body, edited_at: new Date().toISOString() } : x))
+    );
+
+    const { error } = await supabase.from("messages").update({ body }).eq("id", m.id);
+    if (error) {
+      setError(error.message);
+      setMessages((prev) => prev.map((x) => (x.id === m.id ? m : x)));
+    }
+  }
+
+  async function deleteMessage(m: Message) {
+    if (!window.confirm("¿Eliminar este mensaje?")) return;
+    if (editing?.id === m.id) cancelCompose();
+
+    setError("");
+    const now = new Date().toISOString();
+    setMessages((prev) =>
+      prev.map((x) => (x.id === m.id ? { ...x, body: "", photo_id: null, deleted_at: now } : x))
+    );
+
+    const { error } = await supabase.from("messages").update({ deleted_at: now }).eq("id", m.id);
     if (error) {
       setError(error.message);
-      setMessages((prev) => prev.filter((m) => m.id !== id));
+      setMessages((prev) => prev.map((x) => (x.id === m.id ? m : x)));
+    }
+  }
+
+  function cancelCompose() {
+    if (editing) {
+      setText("");
+      mention.reset();
     }
+    setEditing(null);
+    setReplyTo(null);
+  }
+
+  function startReply(m: Message) {
+    cancelCompose();
+    setReplyTo(m);
+    mention.inputRef.current?.focus();
+  }
+
+  // ✅ citas fuera de la página cargada
+  useEffect(() => {
+    if (!target) return;
+
+    const loaded = new Set(messages.map((m) => m.id));
+    const missing = [
+      ...new Set(
+        messages
+          .map((m) => m.reply_to_id)
+          .filter((id): id is string => !!id && !loaded.has(id) && !quotedReqRef.current.has(id))
+      ),
+    ];
+    if (missing.length === 0) return;
+
+    missing.forEach((id) => quotedReqRef.current.add(id));
+    const chatKey = targetKey(target);
+
+    supabase
+      .from("messages")
+      .select(MESSAGE_COLUMNS)
+      .in("id", missing)
+      .then(({ data }) => {
+        if (activeChatRef.current !== chatKey) return;
+        setQuoted((prev) => {
+          const next = new Map(prev);
+          ((data ?? []) as Message[]).forEach((m) => next.set(m.id, m));
+          return next;
+        });
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [messages, targetId]);
+
+  function flash(id: string) {
+    setFlashId(id);
+    window.setTimeout(() => setFlashId((cur) => (cur === id ? null : cur)), 1600);
+  }
+
+  // ✅ saltar al mensaje citado; si es anterior a lo cargado, se trae el tramo que falta
+  async function jumpTo(id: string) {
+    if (messages.some((m) => m.id === id)) {
+      document.getElementById(`msg-${id}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+      flash(id);
+      return;
+    }
+
+    const original = quoted.get(id);
+    const oldest = messages[0];
+    if (!me || !target || !original || !oldest) return;
+
+    const t = target;
+    const reqId = loadReqRef.current;
+
+    const { data, error } = await targetQuery(t)
+      .or(fromCursor(original))
+      .or(beforeCursor(oldest))
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true });
+
+    if (reqId !== loadReqRef.current || activeChatRef.current !== targetKey(t)) return;
+    if (error) return setError(error.message);
+
+    const page = (data ?? []) as Message[];
+    jumpToRef.current = id;
+    setMessages((prev) => {
+      const seen = new Set(prev.map((m) => m.id));
+      return [...page.filter((m) => !seen.has(m.id)), ...prev];
+    });
+    setHasOlder(true);
+    flash(id);
   }
 
   // ✅ when layout becomes wide again, keep experience stable
   useEffect(() => {
     if (!isNarrow) return;
-    if (!selected) setView("list");
-  }, [isNarrow, selected]);
+    if (!target) setView("list");
+  }, [isNarrow, target]);
 
   const shellStyle: React.CSSProperties = {
     display: "grid",
@@ -265,10 +958,277 @@ export default function Chat() {
     minHeight: 0,
   };
 
+  const nameOf = (id: string) => profileById.get(id)?.display_name || (id === me ? headerName : "Usuario");
+
+  const quoteSnippet = (m: Message) => (m.deleted_at ? "Mensaje eliminado" : mentionsToText(m.body, nameOf));
+
+  function startEdit(m: Message) {
+    const { text, refs } = decodeMentions(m.photo_id ? photoMessageComment(m.body) : m.body, nameOf);
+    setReplyTo(null);
+    setEditing(m);
+    setText(text);
+    mention.reset(refs);
+    mention.inputRef.current?.focus();
+  }
+
+  // ✅ rechazado por el servidor: vuelve al composer para corregirlo (sale de la cola)
+  function editRejected(e: OutboxEntry) {
+    const { text, refs } = decodeMentions(e.body, nameOf);
+    const reply = e.reply_to_id ? messages.find((x) => x.id === e.reply_to_id) ?? quoted.get(e.reply_to_id) : undefined;
+    cancelCompose();
+    setReplyTo(reply && !reply.deleted_at ? reply : null);
+    setText(text);
+    mention.reset(refs);
+    outbox.discard(e.id);
+    mention.inputRef.current?.focus();
+  }
+
+  const canSend = !!user && canWrite && (!!text.trim() || !!editing?.photo_id);
+
+  // ✅ resultados agrupados por conversación (en el orden del más reciente)
+  const searchGroups = useMemo(() => {
+    const out = new Map<string, { target: ChatTarget; title: string; hits: MessageSearchHit[] }>();
+    if (!me) return [];
+
+    for (const h of search.results) {
+      const key = messageChatKey(h, me);
+      if (!key) continue;
+
+      let group = out.get(key);
+      if (!group) {
+        const t: ChatTarget = h.conversation_id
+          ? { kind: "group", id: h.conversation_id }
+          : { kind: "dm", id: h.sender_id === me ? h.receiver_id! : h.sender_id };
+        const room = t.kind === "group" ? groups.find((g) => g.id === t.id) : null;
+        const title = room
+          ? room.kind === "channel"
+            ? `# ${room.name}`
+            : room.name
+          : t.kind === "group"
+            ? "Grupo"
+            : nameOf(t.id);
+        group = { target: t, title, hits: [] };
+        out.set(key, group);
+      }
+      group.hits.push(h);
+    }
+
+    return [...out.entries()].map(([key, g]) => ({ key, ...g }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [search.results, me, groups, profileById]);
+
+  const highlight = (snippet: string) =>
+    splitHighlight(mentionsToText(snippet, nameOf)).map((seg, i) =>
+      seg.hit ? (
+        <mark key={i} style={{ background: "rgba(255,214,10,0.35)", color: "inherit", borderRadius: 3 }}>
+          {seg.text}
+        </mark>
+      ) : (
+        <span key={i}>{seg.text}</span>
+      )
+    );
+
+  // a quien bloqueé no se le ofrece ni para DMs ni para grupos nuevos
+  const reachable = useMemo(() => profiles.filter((p) => kindById.get(p.id) !== "block"), [profiles, kindById]);
+
+  // ✅ "nuevo chat": solo gente con la que aún no hay conversación
+  const pickCandidates = useMemo(() => {
+    const withChat = new Set(conversations.map((c) => c.peer_id));
+    const q = pickQuery.trim().toLowerCase();
+    return reachable.filter((p) => !withChat.has(p.id) && (!q || (p.display_name ?? "").toLowerCase().includes(q)));
+  }, [reachable, conversations, pickQuery]);
+
+  // ✅ bandeja única: DMs y grupos por última actividad
+  const inbox = useMemo<InboxItem[]>(() => {
+    const dms: InboxItem[] = conversations
+      .filter((c) => profileById.has(c.peer_id))
+      .map((c) => ({
+        key: `dm:${c.peer_id}`,
+        target: { kind: "dm", id: c.peer_id },
+        title: profileById.get(c.peer_id)?.display_name || "Usuario",
+        last: c.last,
+        at: c.last.created_at,
+        unread: unreadByUser.get(c.peer_id) ?? 0,
+      }));
+
+    const rooms: InboxItem[] = groups.map((g) => ({
+      key: `group:${g.id}`,
+      target: { kind: "group", id: g.id },
+      title: g.kind === "channel" ? `# ${g.name}` : g.name,
+      last: g.last,
+      at: g.last_at,
+      unread: unreadByGroup.get(g.id) ?? 0,
+    }));
+
+    return [...dms, ...rooms].sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+  }, [conversations, groups, profileById, unreadByUser, unreadByGroup]);
+
+  function openTarget(t: ChatTarget) {
+    setPicking(false);
+    setPickQuery("");
+    if (target && targetKey(target) === targetKey(t)) {
+      if (isNarrow) setView("chat");
+      return;
+    }
+
+    // ✅ avoid flash: clear immediately + switch
+    setMessages([]);
+    setLoadingMessages(true); // will show "Cargando..." instead of "Aún no hay..."
+    setText("");
+    setTarget(t);
+    if (t.kind === "dm") onUserChange?.(t.id);
+    else onGroupChange?.(t.id);
+    if (isNarrow) setView("chat");
+  }
+
+  function openSearchHit(t: ChatTarget, messageId: string) {
+    if (target && targetKey(target) === targetKey(t)) {
+      if (isNarrow) setView("chat");
+      if (messages.some((m) => m.id === messageId)) jumpTo(messageId);
+      else loadAround(t, messageId);
+      return;
+    }
+
+    focusMessageRef.current = { key: targetKey(t), id: messageId };
+    openTarget(t);
+  }
+
+  async function createGroup() {
+    const name = newGroupName.trim();
+    if (!name) return;
+
+    const id = await groupChats.createGroup(name, [...newGroupMembers]);
+    if (!id) return;
+
+    setNewGroupName("");
+    setNewGroupMembers(new Set());
+    openTarget({ kind: "group", id });
+  }
+
+  const rowStyle = (active: boolean): React.CSSProperties => ({
+    display: "flex",
+    flexDirection: "column",
+    gap: 4,
+    textAlign: "left",
+    border: "1px solid " + (active ? "#4b7cff" : "rgba(255,255,255,0.10)"),
+    background: active ? "rgba(75,124,255,0.15)" : "rgba(255,255,255,0.02)",
+    borderRadius: 14,
+    padding: "10px 12px",
+    cursor: "pointer",
+    color: "inherit",
+  });
+
+  const ellipsis: React.CSSProperties = { overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" };
+
+  const msgAction: React.CSSProperties = {
+    border: "none",
+    background: "none",
+    color: "#4da6ff",
+    fontWeight: 600,
+    fontSize: 11,
+    padding: "0 0 0 8px",
+    cursor: "pointer",
+  };
+
+  const fieldStyle: React.CSSProperties = {
+    borderRadius: 12,
+    border: "1px solid rgba(255,255,255,0.10)",
+    padding: "8px 10px",
+    background: "rgba(255,255,255,0.03)",
+    color: "inherit",
+  };
+
+  const sectionTitle: React.CSSProperties = { fontSize: 12, opacity: 0.7, marginTop: 6 };
+
+  const onlineDot = (id: string) =>
+    online.has(id) && (
+      <span
+        title="En línea"
+        aria-label="En línea"
+        style={{
+          display: "inline-block",
+          width: 8,
+          height: 8,
+          borderRadius: 999,
+          background: "#3ecf8e",
+          marginRight: 6,
+          verticalAlign: "middle",
+          flex: "0 0 auto",
+        }}
+      />
+    );
+
+  const restrictionMark = (id: string) => {
+    const kind = kindById.get(id);
+    if (!kind) return null;
+    return (
+      <span style={{ marginLeft: 6, fontWeight: 400 }} title={kind === "block" ? "Bloqueado" : "Silenciado"}>
+        {kind === "block" ? "🚫" : "🔕"}
+      </span>
+    );
+  };
+
+  const headerButton = (on: boolean): React.CSSProperties => ({
+    borderRadius: 12,
+    border: "1px solid rgba(255,255,255,0.10)",
+    background: on ? "rgba(75,124,255,0.15)" : "rgba(255,255,255,0.04)",
+    color: "inherit",
+    padding: "6px 10px",
+    cursor: "pointer",
+    fontSize: 13,
+  });
+
+  function toggleMute(peer: Profile) {
+    if (selectedKind === "mute") restrictions.unrestrict(peer.id);
+    else restrictions.restrict(peer.id, "mute");
+  }
+
+  function toggleBlock(peer: Profile) {
+    if (selectedKind === "block") return restrictions.unrestrict(peer.id);
+
+    const name = peer.display_name || "este usuario";
+    if (!window.confirm(`¿Bloquear a ${name}? No podréis enviaros mensajes y dejarás de ver sus comentarios.`)) return;
+    cancelCompose();
+    setText("");
+    sendTyping(false);
+    restrictions.restrict(peer.id, "block");
+  }
+
+  const typingLabel =
+    typingIds.length === 0
+      ? ""
+      : selected
+        ? "escribiendo…"
+        : typingIds.length === 1
+          ? `${nameOf(typingIds[0])} está escribiendo…`
+          : `${typingIds.map(nameOf).join(", ")} están escribiendo…`;
+
+  const listError = error || groupChats.error;
+
   const listPanel = (
     <aside style={{ ...panelStyle, display: "flex", flexDirection: "column", minHeight: 0 }}>
       <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
-        <b style={{ fontSize: 18 }}>Usuarios</b>
+        <b style={{ fontSize: 18 }}>{picking ? "Nuevo chat" : "Conversaciones"}</b>
+        {user && (
+          <button
+            type="button"
+            onClick={() => {
+              setPicking((v) => !v);
+              setPickQuery("");
+            }}
+            style={{
+              borderRadius: 12,
+              border: "1px solid rgba(255,255,255,0.10)",
+              background: "rgba(255,255,255,0.06)",
+              color: "inherit",
+              padding: "6px 10px",
+              cursor: "pointer",
+              fontSize: 13,
+            }}
+          >
+            {picking ? "Volver" : "+ Nuevo chat"}
+          </button>
+        )}
       </div>
 
       {user && (
@@ -277,64 +1237,172 @@ export default function Chat() {
         </div>
       )}
 
+      {user && !picking && (
+        <input
+          type="search"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape" && searchQuery) {
+              e.stopPropagation();
+              setSearchQuery("");
+            }
+          }}
+          placeholder="Buscar en mensajes…"
+          style={{ ...fieldStyle, marginTop: 10 }}
+        />
+      )}
+
       <div style={{ marginTop: 12, display: "flex", flexDirection: "column", gap: 8, overflow: "auto" }}>
         {authLoading ? (
           <div style={{ opacity: 0.75 }}>Cargando sesión…</div>
         ) : !user ? (
-          <div style={{ opacity: 0.75 }}>Inicia sesión para ver usuarios.</div>
-        ) : error ? (
-          <div style={{ color: "crimson" }}>{error}</div>
-        ) : profiles.length === 0 ? (
-          <div style={{ opacity: 0.75 }}>No hay otros usuarios aún.</div>
+          <div style={{ opacity: 0.75 }}>Inicia sesión para ver tus conversaciones.</div>
+        ) : listError ? (
+          <div style={{ color: "crimson" }}>{listError}</div>
+        ) : picking ? (
+          <>
+            <div style={sectionTitle}>Crear grupo</div>
+            <input
+              value={newGroupName}
+              onChange={(e) => setNewGroupName(e.target.value)}
+              placeholder="Nombre del grupo"
+              maxLength={60}
+              style={fieldStyle}
+            />
+            {newGroupName.trim() && (
+              <div style={{ display: "flex", flexDirection: "column", gap: 4, maxHeight: 160, overflow: "auto", fontSize: 13 }}>
+                {reachable.map((p) => (
+                  <label key={p.id} style={{ display: "flex", gap: 8, alignItems: "center", cursor: "pointer" }}>
+                    <input
+                      type="checkbox"
+                      checked={newGroupMembers.has(p.id)}
+                      onChange={(e) =>
+                        setNewGroupMembers((prev) => {
+                          const next = new Set(prev);
+                          if (e.target.checked) next.add(p.id);
+                          else next.delete(p.id);
+                          return next;
+                        })
+                      }
+                    />
+                    {p.display_name || "Usuario"}
+                  </label>
+                ))}
+              </div>
+            )}
+            <button type="button" onClick={createGroup} disabled={!newGroupName.trim()} style={rowStyle(false)}>
+              <b>Crear grupo{newGroupMembers.size ? ` con ${newGroupMembers.size}` : ""}</b>
+            </button>
+
+            <div style={sectionTitle}>Mensaje directo</div>
+            <input
+              value={pickQuery}
+              onChange={(e) => setPickQuery(e.target.value)}
+              placeholder="Buscar persona…"
+              style={fieldStyle}
+            />
+            {pickCandidates.length === 0 ? (
+              <div style={{ opacity: 0.75 }}>
+                {reachable.length === 0 ? "No hay otros usuarios aún." : "Ya tienes conversación con todos."}
+              </div>
+            ) : (
+              pickCandidates.map((p) => (
+                <button key={p.id} type="button" onClick={() => openTarget({ kind: "dm", id: p.id })} style={rowStyle(false)}>
+                  <b style={ellipsis}>
+                    {onlineDot(p.id)}
+                    {p.display_name || "Usuario"}
+                  </b>
+                </button>
+              ))
+            )}
+          </>
+        ) : searchQuery.trim() ? (
+          search.error ? (
+            <div style={{ color: "crimson" }}>{search.error}</div>
+          ) : search.searching && search.results.length === 0 ? (
+            <div style={{ opacity: 0.75 }}>Buscando…</div>
+          ) : searchGroups.length === 0 ? (
+            <div style={{ opacity: 0.75 }}>
+              {searchQuery.trim().length < 2 ? "Escribe al menos 2 letras." : "Sin resultados."}
+            </div>
+          ) : (
+            searchGroups.map((g) => (
+              <div key={g.key} style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+                <div style={sectionTitle}>{g.title}</div>
+                {g.hits.map((h) => (
+                  <button key={h.id} type="button" onClick={() => openSearchHit(g.target, h.id)} style={rowStyle(false)}>
+                    <span
+                      style={{
+                        fontSize: 13,
+                        overflow: "hidden",
+                        display: "-webkit-box",
+                        WebkitLineClamp: 2,
+                        WebkitBoxOrient: "vertical",
+                      }}
+                    >
+                      {h.sender_id === me ? "Tú: " : g.target.kind === "group" ? `${nameOf(h.sender_id)}: ` : ""}
+                      {highlight(h.snippet)}
+                    </span>
+                    <span style={{ fontSize: 11, opacity: 0.65 }}>{formatInboxTime(h.created_at)}</span>
+                  </button>
+                ))}
+              </div>
+            ))
+          )
+        ) : inbox.length === 0 ? (
+          <div style={{ opacity: 0.75 }}>Aún no tienes conversaciones. Empieza una con “Nuevo chat”.</div>
         ) : (
-          profiles.map((p) => {
-            const active = selected?.id === p.id;
-            const unread = unreadByUser.get(p.id) ?? 0;
+          inbox.map((item) => {
+            const isActive = !!target && targetKey(target) === item.key;
+            const unread = item.unread;
+            const preview = !item.last
+              ? "Sin mensajes aún"
+              : item.last.body
+                ? mentionsToText(item.last.body, nameOf)
+                : "Mensaje eliminado";
+            const senderPrefix = !item.last
+              ? ""
+              : item.last.sender_id === me
+                ? "Tú: "
+                : item.target.kind === "group"
+                  ? `${nameOf(item.last.sender_id)}: `
+                  : "";
 
             return (
-              <button
-                key={p.id}
-                onClick={() => {
-                  // ✅ avoid flash: clear immediately + switch
-                  setMessages([]);
-                  setLoadingMessages(true); // will show "Cargando..." instead of "Aún no hay..."
-                  setText("");
-                  setSelected(p);
-                  if (isNarrow) setView("chat");
-                }}
-                style={{
-                  display: "flex",
-                  alignItems: "center",
-                  justifyContent: "space-between",
-                  gap: 10,
-                  textAlign: "left",
-                  border: "1px solid " + (active ? "#4b7cff" : "rgba(255,255,255,0.10)"),
-                  background: active ? "rgba(75,124,255,0.15)" : "rgba(255,255,255,0.02)",
-                  borderRadius: 14,
-                  padding: "10px 12px",
-                  cursor: "pointer",
-                  color: "inherit",
-                }}
-              >
-                <b style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
-                  {p.display_name || "Usuario"}
-                </b>
+              <button key={item.key} type="button" onClick={() => openTarget(item.target)} style={rowStyle(isActive)}>
+                <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline" }}>
+                  <b style={ellipsis}>
+                    {item.target.kind === "dm" && onlineDot(item.target.id)}
+                    {item.title}
+                    {item.target.kind === "dm" && restrictionMark(item.target.id)}
+                  </b>
+                  <span style={{ fontSize: 11, opacity: 0.65, flex: "0 0 auto" }}>{formatInboxTime(item.at)}</span>
+                </div>
 
-                {unread > 0 && !active && (
-                  <span
-                    style={{
-                      fontSize: 12,
-                      padding: "2px 8px",
-                      borderRadius: 999,
-                      border: "1px solid rgba(255,255,255,0.14)",
-                      background: "rgba(255,255,255,0.08)",
-                      opacity: 0.95,
-                    }}
-                    title="Mensajes nuevos (estimado)"
-                  >
-                    {unread}
+                <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
+                  <span style={{ ...ellipsis, fontSize: 13, opacity: unread > 0 ? 0.95 : 0.7 }}>
+                    {senderPrefix}
+                    {preview}
                   </span>
-                )}
+
+                  {unread > 0 && !isActive && (
+                    <span
+                      style={{
+                        fontSize: 12,
+                        padding: "2px 8px",
+                        borderRadius: 999,
+                        border: "1px solid rgba(255,255,255,0.14)",
+                        background: "rgba(255,255,255,0.08)",
+                        opacity: 0.95,
+                        flex: "0 0 auto",
+                      }}
+                      title="Mensajes sin leer"
+                    >
+                      {unread}
+                    </span>
+                  )}
+                </div>
               </button>
             );
           })
@@ -353,6 +1421,7 @@ export default function Chat() {
               type="button"
               onClick={() => {
                 setView("list"); // ✅ back to list
+                cancelCompose();
                 setText("");
               }}
               style={{
@@ -372,18 +1441,81 @@ export default function Chat() {
           )}
 
           <div>
-            <b style={{ fontSize: 18 }}>Chat</b>
+            <b style={{ fontSize: 18 }}>{selectedGroup ? selectedGroup.name : "Chat"}</b>
             <div style={{ opacity: 0.75, fontSize: 13 }}>
-              {selected ? `Con: ${selected.display_name || "Usuario"}` : "Selecciona un usuario"}
+              {typingLabel && canWrite ? (
+                <i>{typingLabel}</i>
+              ) : selected ? (
+                <>
+                  Con: {selected.display_name || "Usuario"}
+                  {online.has(selected.id) && " · en línea"}
+                </>
+              ) : selectedGroup ? (
+                `${selectedGroup.kind === "channel" ? "Canal general" : "Grupo"} · ${selectedGroup.member_count} miembros`
+              ) : (
+                "Selecciona una conversación"
+              )}
             </div>
           </div>
         </div>
+
+        {selectedGroup && (
+          <button type="button" onClick={() => setShowMembers((v) => !v)} style={headerButton(showMembers)}>
+            Miembros
+          </button>
+        )}
+
+        {selected && (
+          <div style={{ display: "flex", gap: 6 }}>
+            {selectedKind !== "block" && (
+              <button
+                type="button"
+                onClick={() => toggleMute(selected)}
+                style={headerButton(selectedKind === "mute")}
+                title={selectedKind === "mute" ? "Volver a recibir avisos" : "Sin avisos ni contador de no leídos"}
+              >
+                {selectedKind === "mute" ? "Quitar silencio" : "Silenciar"}
+              </button>
+            )}
+            <button type="button" onClick={() => toggleBlock(selected)} style={headerButton(selectedKind === "block")}>
+              {selectedKind === "block" ? "Desbloquear" : "Bloquear"}
+            </button>
+          </div>
+        )}
       </div>
 
+      {restrictions.error && <div style={{ color: "crimson", fontSize: 13, marginTop: 6 }}>{restrictions.error}</div>}
+
+      {selectedGroup && showMembers && me && (
+        <GroupMembersPanel
+          group={selectedGroup}
+          me={me}
+          profiles={profiles}
+          profileById={profileById}
+          loadMembers={groupChats.loadMembers}
+          addMember={groupChats.addMember}
+          removeMember={groupChats.removeMember}
+          setRole={groupChats.setRole}
+          leave={groupChats.leave}
+          onLeft={() => {
+            setTarget(null);
+            setView("list");
+          }}
+        />
+      )}
+
       {error && user && <div style={{ color: "crimson", marginTop: 10 }}>{error}</div>}
 
       {/* Messages */}
       <div
+        ref={listRef}
+        onScroll={(e) => {
+          // ✅ solo al subir (el auto-scroll inicial baja desde 0 y no debe pedir páginas)
+          const top = e.currentTarget.scrollTop;
+          const goingUp = top < lastScrollTopRef.current;
+          lastScrollTopRef.current = top;
+          if (goingUp && top < LOAD_OLDER_THRESHOLD) loadOlder();
+        }}
         style={{
           marginTop: 12,
           border: "1px solid rgba(255,255,255,0.10)",
@@ -397,71 +1529,281 @@ export default function Chat() {
       >
         {!user ? (
           <div style={{ opacity: 0.75 }}>Inicia sesión para chatear.</div>
-        ) : !selected ? (
-          <div style={{ opacity: 0.75 }}>Selecciona un usuario.</div>
+        ) : !target ? (
+          <div style={{ opacity: 0.75 }}>Selecciona una conversación o empieza un chat nuevo.</div>
+        ) : target.kind === "group" && !selectedGroup ? (
+          <div style={{ opacity: 0.75 }}>No eres miembro de este grupo. Pide a un admin que te añada.</div>
         ) : loadingMessages ? (
           <div style={{ opacity: 0.75 }}>Cargando mensajes…</div>
-        ) : messages.length === 0 ? (
+        ) : shownMessages.length === 0 ? (
           <div style={{ opacity: 0.75 }}>Aún no hay mensajes.</div>
         ) : (
-          messages.map((m) => {
-            const mine = m.sender_id === me;
-            return (
-              <div
-                key={m.id}
-                style={{
-                  display: "flex",
-                  justifyContent: mine ? "flex-end" : "flex-start",
-                  marginBottom: 10,
-                }}
-              >
-                <div
+          <>
+            {(hasOlder || loadingOlder) && (
+              <div style={{ textAlign: "center", marginBottom: 10 }}>
+                <button
+                  type="button"
+                  onClick={loadOlder}
+                  disabled={loadingOlder}
                   style={{
-                    maxWidth: "78%",
+                    borderRadius: 999,
                     border: "1px solid rgba(255,255,255,0.10)",
-                    borderRadius: 16,
-                    padding: "10px 12px",
-                    background: mine ? "rgba(75,124,255,0.18)" : "rgba(255,255,255,0.03)",
+                    background: "rgba(255,255,255,0.04)",
+                    color: "inherit",
+                    padding: "4px 12px",
+                    fontSize: 12,
+                    cursor: loadingOlder ? "default" : "pointer",
+                    opacity: 0.8,
+                  }}
+                >
+                  {loadingOlder ? "Cargando…" : "Cargar mensajes anteriores"}
+                </button>
+              </div>
+            )}
+            {shownMessages.map((m) => {
+              const mine = m.sender_id === me;
+              const queued = pendingById.get(m.id);
+              // "visto" solo en DMs
+              const seen = mine && !!selected && seenAt >= new Date(m.created_at).getTime();
+              const body = m.photo_id ? photoMessageComment(m.body) : m.body;
+              const quote = m.reply_to_id
+                ? messages.find((x) => x.id === m.reply_to_id) ?? quoted.get(m.reply_to_id) ?? null
+                : null;
+              const flashed = flashId === m.id;
+              return (
+                <div
+                  key={m.id}
+                  id={`msg-${m.id}`}
+                  style={{
+                    display: "flex",
+                    justifyContent: mine ? "flex-end" : "flex-start",
+                    marginBottom: 10,
                   }}
                 >
-                  <div style={{ whiteSpace: "pre-wrap" }}>{m.body}</div>
-                  <div style={{ opacity: 0.65, fontSize: 11, marginTop: 6 }}>
-                    {new Date(m.created_at).toLocaleString()}
+                  <div
+                    style={{
+                      maxWidth: "78%",
+                      border: "1px solid " + (flashed ? "#4da6ff" : "rgba(255,255,255,0.10)"),
+                      borderRadius: 16,
+                      padding: "10px 12px",
+                      background: mine ? "rgba(75,124,255,0.18)" : "rgba(255,255,255,0.03)",
+                      transition: "border-color 600ms ease",
+                    }}
+                  >
+                    {selectedGroup && !mine && (
+                      <div style={{ fontSize: 12, fontWeight: 700, opacity: 0.8, marginBottom: 4 }}>
+                        {nameOf(m.sender_id)}
+                      </div>
+                    )}
+                    {m.deleted_at ? (
+                      // ✅ tombstone: se conserva el hueco en la conversación
+                      <div style={{ fontStyle: "italic", opacity: 0.6 }}>Mensaje eliminado</div>
+                    ) : (
+                      <>
+                        {m.reply_to_id && (
+                          <button
+                            type="button"
+                            onClick={() => jumpTo(m.reply_to_id!)}
+                            title="Ir al mensaje citado"
+                            style={{
+                              display: "flex",
+                              flexDirection: "column",
+                              gap: 2,
+                              width: "100%",
+                              marginBottom: 6,
+                              padding: "4px 8px",
+                              border: 0,
+                              borderLeft: "3px solid #4b7cff",
+                              borderRadius: 6,
+                              background: "rgba(255,255,255,0.05)",
+                              color: "inherit",
+                              textAlign: "left",
+                              fontSize: 12,
+                              cursor: "pointer",
+                            }}
+                          >
+                            <b>{quote ? nameOf(quote.sender_id) : "Mensaje"}</b>
+                            <span style={{ ...ellipsis, opacity: 0.75 }}>
+                              {quote ? quoteSnippet(quote) : "Cargando…"}
+                            </span>
+                          </button>
+                        )}
+                        {m.photo_id && <PhotoCard publicId={m.photo_id} />}
+                        {body && (
+                          <div style={{ whiteSpace: "pre-wrap", marginTop: m.photo_id ? 8 : 0 }}>
+                            <MentionText body={body} />
+                          </div>
+                        )}
+                      </>
+                    )}
+                    <div style={{ opacity: 0.65, fontSize: 11, marginTop: 6 }}>
+                      {new Date(m.created_at).toLocaleString()}
+                      {m.edited_at && !m.deleted_at && (
+                        <span style={{ marginLeft: 6 }} title={`Editado ${new Date(m.edited_at).toLocaleString()}`}>
+                          (editado)
+                        </span>
+                      )}
+                      {mine && selected && !queued && (
+                        <span style={{ marginLeft: 6 }} title={seen ? "Visto" : "Enviado"}>
+                          {seen ? "✓✓ visto" : "✓"}
+                        </span>
+                      )}
+                      {queued &&
+                        (queued.status === "sending" ? (
+                          <span style={{ marginLeft: 6 }}>Enviando…</span>
+                        ) : queued.status === "rejected" ? (
+                          <>
+                            <span style={{ marginLeft: 6, color: "crimson" }} title={queued.error}>
+                              No se pudo enviar
+                            </span>
+                            <button type="button" style={msgAction} onClick={() => editRejected(queued)}>
+                              Editar
+                            </button>
+                            <button type="button" style={msgAction} onClick={() => outbox.discard(queued.id)}>
+                              Descartar
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <span style={{ marginLeft: 6, color: "crimson" }} title={queued.error}>
+                              Error al enviar
+                            </span>
+                            <button type="button" style={msgAction} onClick={() => outbox.retry(queued.id)}>
+                              Reintentar
+                            </button>
+                            <button type="button" style={msgAction} onClick={() => outbox.discard(queued.id)}>
+                              Descartar
+                            </button>
+                          </>
+                        ))}
+                      {!m.deleted_at && canWrite && !queued && (
+                        <>
+                          <button type="button" style={msgAction} onClick={() => startReply(m)}>
+                            Responder
+                          </button>
+                          {mine && (
+                            <>
+                              <button type="button" style={msgAction} onClick={() => startEdit(m)}>
+                                Editar
+                              </button>
+                              <button type="button" style={msgAction} onClick={() => deleteMessage(m)}>
+                                Eliminar
+                              </button>
+                            </>
+                          )}
+                        </>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
-            );
-          })
+              );
+            })}
+          </>
+        )}
+
+        {hasNewer && target && !loadingMessages && (
+          <div style={{ textAlign: "center", marginTop: 4 }}>
+            <button
+              type="button"
+              onClick={() => loadMessages(target)}
+              style={{
+                borderRadius: 999,
+                border: "1px solid rgba(255,255,255,0.10)",
+                background: "rgba(255,255,255,0.04)",
+                color: "inherit",
+                padding: "4px 12px",
+                fontSize: 12,
+                cursor: "pointer",
+                opacity: 0.8,
+              }}
+            >
+              Ir a los mensajes recientes ↓
+            </button>
+          </div>
         )}
 
         <div ref={bottomRef} />
       </div>
 
       {/* Composer */}
-      <div style={{ marginTop: 10, display: "flex", gap: 10 }}>
-        <input
-          value={text}
-          onChange={(e) => setText(e.target.value)}
-          placeholder={user ? "Escribe un mensaje..." : "Inicia sesión..."}
-          disabled={!user || !selected}
+      {selected && selectedKind === "block" && (
+        <div style={{ marginTop: 10, fontSize: 13, opacity: 0.8 }}>
+          Bloqueaste a <b>{selected.display_name || "Usuario"}</b>: no podéis enviaros mensajes.{" "}
+          <button type="button" onClick={() => toggleBlock(selected)} style={{ ...msgAction, padding: 0, fontSize: 13 }}>
+            Desbloquear
+          </button>
+        </div>
+      )}
+      {(editing || replyTo) && (
+        <div
           style={{
-            flex: 1,
-            borderRadius: 12,
-            border: "1px solid rgba(255,255,255,0.10)",
-            padding: "10px 12px",
-            background: "rgba(255,255,255,0.03)",
-            color: "inherit",
+            marginTop: 10,
+            display: "flex",
+            alignItems: "center",
+            gap: 8,
+            padding: "6px 10px",
+            borderLeft: "3px solid #4b7cff",
+            borderRadius: 8,
+            background: "rgba(255,255,255,0.04)",
+            fontSize: 12,
           }}
-          onKeyDown={(e) => {
-            if (e.key === "Enter") {
-              e.preventDefault();
-              send();
-            }
-          }}
-        />
+        >
+          <span style={{ ...ellipsis, flex: 1 }}>
+            {editing ? (
+              <b>Editando mensaje</b>
+            ) : (
+              replyTo && (
+                <>
+                  Respondiendo a <b>{nameOf(replyTo.sender_id)}</b>: {quoteSnippet(replyTo)}
+                </>
+              )
+            )}
+          </span>
+          <button type="button" onClick={cancelCompose} style={{ ...msgAction, fontSize: 14 }} aria-label="Cancelar">
+            ✕
+          </button>
+        </div>
+      )}
+      <div style={{ marginTop: 10, display: "flex", gap: 10 }}>
+        <div className="mentionBox" style={{ flex: 1, display: "flex" }}>
+          <input
+            ref={mention.inputRef}
+            value={text}
+            onChange={mention.handleChange}
+            onClick={mention.handleClick}
+            onBlur={mention.handleBlur}
+            placeholder={user ? "Escribe un mensaje..." : "Inicia sesión..."}
+            disabled={!user || !canWrite}
+            style={{
+              flex: 1,
+              borderRadius: 12,
+              border: "1px solid rgba(255,255,255,0.10)",
+              padding: "10px 12px",
+              background: "rgba(255,255,255,0.03)",
+              color: "inherit",
+            }}
+            onKeyDown={(e) => {
+              if (mention.handleKeyDown(e)) return;
+              if (e.key === "Escape" && (editing || replyTo)) {
+                // no cerrar el drawer, solo la edición/respuesta
+                e.stopPropagation();
+                cancelCompose();
+              } else if (e.key === "Enter") {
+                e.preventDefault();
+                send();
+              }
+            }}
+          />
+          <MentionSuggestions
+            suggestions={mention.suggestions}
+            active={mention.active}
+            onPick={mention.pick}
+            placement="above"
+          />
+        </div>
         <button
           onClick={send}
-          disabled={!user || !selected || !text.trim()}
+          disabled={!canSend}
           style={{
             borderRadius: 12,
             border: "1px solid rgba(255,255,255,0.10)",
@@ -469,10 +1811,10 @@ export default function Chat() {
             color: "inherit",
             padding: "10px 14px",
             cursor: "pointer",
-            opacity: !user || !selected || !text.trim() ? 0.5 : 1,
+            opacity: canSend ? 1 : 0.5,
           }}
         >
-          Enviar
+          {editing ? "Guardar" : "Enviar"}
         </button>
       </div>
     </section>
@@ -0,0 +1,61 @@
+// src/components/CloudImage.tsx
+import { useEffect, useRef, useState } from "react"
+import { buildImageUrl, buildPlaceholderUrl, buildSrcSet, type ImagePreset } from "../lib/cloudinary"
+
+/**
+ * <img> responsive de Cloudinary: srcset/sizes según el preset y una
+ * miniatura borrosa de fondo hasta que carga la imagen real.
+ */
+export default function CloudImage({
+  publicId,
+  preset,
+  className,
+  alt = "",
+  loading,
+  width,
+  height,
+}: {
+  publicId: string
+  preset: ImagePreset
+  className?: string
+  alt?: string
+  loading?: "lazy" | "eager"
+  width?: number | null
+  height?: number | null
+}) {
+  const imgRef = useRef<HTMLImageElement | null>(null)
+  const [loaded, setLoaded] = useState(false)
+
+  // ✅ si ya estaba en caché, onLoad puede haber ocurrido antes de hidratar
+  useEffect(() => {
+    setLoaded(!!imgRef.current?.complete && imgRef.current.naturalWidth > 0)
+  }, [publicId])
+
+  const { transform, widths, sizes } = preset
+  const largest = widths[widths.length - 1]
+
+  return (
+    <img
+      ref={imgRef}
+      className={className}
+      src={buildImageUrl(publicId, { ...transform, width: largest })}
+      srcSet={buildSrcSet(publicId, widths, transform)}
+      sizes={sizes}
+      alt={alt}
+      loading={loading}
+      decoding="async"
+      width={width ?? undefined}
+      height={height ?? undefined}
+      onLoad={() => setLoaded(true)}
+      style={
+        loaded
+          ? undefined
+          : {
+              backgroundImage: `url("${buildPlaceholderUrl(publicId, transform)}")`,
+              backgroundSize: "cover",
+              backgroundPosition: "center",
+            }
+      }
+    />
+  )
+}
@@ -1,9 +1,21 @@
 // src/components/Comments.tsx
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "../lib/supabaseClient";
 import { useAuth } from "../hooks/useAuth";
-
-type Props = { photoId: string };
+import { getSetting } from "../lib/appSettings";
+import { useProfiles } from "../hooks/useProfiles";
+import { useMentionAutocomplete } from "../hooks/useMentionAutocomplete";
+import { useUserRestrictions } from "../hooks/useUserRestrictions";
+import { decodeMentions } from "../lib/mentions";
+import { useHash } from "../lib/router";
+import MentionSuggestions from "./MentionSuggestions";
+import MentionText from "./MentionText";
+
+type Props = {
+  photoId: string;
+  /** total de comentarios cargados para la foto (alimenta el orden "Más comentadas") */
+  onCountChange?: (photoId: string, count: number) => void;
+};
 
 type Row = {
   id: string;
@@ -13,8 +25,19 @@ type Row = {
   display_name: string | null;
   body: string;
   created_at: string;
+  edited_at: string | null;
+  /** tombstone: se muestra "[comentario eliminado]" mientras tenga respuestas */
+  deleted_at: string | null;
+};
+
+type Revision = {
+  id: string;
+  body: string;
+  edited_at: string;
 };
 
+const COMMENT_COLUMNS = "id,photo_id,parent_id,user_id,display_name,body,created_at,edited_at,deleted_at";
+
 type Node = Row & { replies: Node[] };
 
 function buildTree(rows: Row[]): Node[] {
@@ -31,11 +54,41 @@ function buildTree(rows: Row[]): Node[] {
     arr.forEach((x) => sortRec(x.replies));
   };
 
-  sortRec(roots);
-  return roots;
+  // ✅ tombstones sin respuestas no se muestran (el servidor también los limpia)
+  const pruneRec = (arr: Node[]): Node[] =>
+    arr
+      .map((n) => ({ ...n, replies: pruneRec(n.replies) }))
+      .filter((n) => !n.deleted_at || n.replies.length > 0);
+
+  const visible = pruneRec(roots);
+  sortRec(visible);
+  return visible;
 }
 
-export default function Comments({ photoId }: Props) {
+// tombstones que se quedaron sin respuestas, en cadena hacia arriba (igual que comments_after_delete)
+function pruneTombstones(rows: Row[]): Row[] {
+  let cur = rows;
+
+  for (;;) {
+    const parents = new Set(cur.map((r) => r.parent_id).filter(Boolean));
+    const next = cur.filter((r) => !r.deleted_at || parents.has(r.id));
+    if (next.length === cur.length) return cur;
+    cur = next;
+  }
+}
+
+// borrado real de una fila (solo ocurre sin respuestas) + limpieza de tombstones
+function removeComment(rows: Row[], id: string): Row[] {
+  if (!rows.some((r) => r.id === id)) return rows;
+  return pruneTombstones(rows.filter((r) => r.id !== id));
+}
+
+const FRESH_MS = 6000;
+
+// respaldo si app_settings no responde (el servidor aplica el valor real)
+const DEFAULT_EDIT_WINDOW_MIN = 15;
+
+export default function Comments({ photoId, onCountChange }: Props) {
   const { user, profile, loading: authLoading } = useAuth();
 
   const [rows, setRows] = useState<Row[]>([]);
@@ -44,7 +97,47 @@ export default function Comments({ photoId }: Props) {
   const [error, setError] = useState("");
   const [busyId, setBusyId] = useState<string | null>(null);
 
-  const tree = useMemo(() => buildTree(rows), [rows]);
+  // ✅ comentarios recibidos en vivo (resaltado "nuevo" temporal)
+  const [freshIds, setFreshIds] = useState<Set<string>>(() => new Set());
+
+  // ✅ edición inline + historial
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [editWindowMin, setEditWindowMin] = useState<number | null>(DEFAULT_EDIT_WINDOW_MIN);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [history, setHistory] = useState<Revision[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+
+  // ✅ @menciones (nuevo comentario y edición)
+  const { profiles, byId: profilesById } = useProfiles();
+  const composeMention = useMentionAutocomplete<HTMLTextAreaElement>({
+    value: text,
+    onChange: setText,
+    profiles,
+    excludeId: user?.id,
+  });
+  const editMention = useMentionAutocomplete<HTMLTextAreaElement>({
+    value: editText,
+    onChange: setEditText,
+    profiles,
+    excludeId: user?.id,
+  });
+
+  useEffect(() => {
+    getSetting<number | null>("comment_edit_window_minutes", DEFAULT_EDIT_WINDOW_MIN).then(setEditWindowMin);
+  }, []);
+
+  // ✅ enlace profundo desde notificaciones: /photo/:id#comment-<id>
+  const hash = useHash();
+  const targetId = hash.startsWith("comment-") ? hash.slice("comment-".length) : null;
+  const scrolledToRef = useRef<string | null>(null);
+
+  // ✅ solo reportamos el total cuando rows pertenece a la foto abierta
+  const loadedPhotoRef = useRef<string | null>(null);
+
+  // ✅ bloqueados: el servidor ya no los devuelve; esto cubre lo cargado antes de bloquear
+  const { kindById, restrictions } = useUserRestrictions();
+  const tree = useMemo(() => buildTree(rows.filter((r) => kindById.get(r.user_id) !== "block")), [rows, kindById]);
 
   const displayName = useMemo(() => {
     if (!user) return "";
@@ -61,12 +154,14 @@ export default function Comments({ photoId }: Props) {
 
     const { data, error } = await supabase
       .from("comments")
-      .select("id,photo_id,parent_id,user_id,display_name,body,created_at")
+      .select(COMMENT_COLUMNS)
       .eq("photo_id", photoId)
       .order("created_at", { ascending: true });
 
-    if (error) setError(error.message);
-    else setRows((data ?? []) as Row[]);
+    if (error) return setError(error.message);
+
+    loadedPhotoRef.current = photoId;
+    setRows((data ?? []) as Row[]);
   }
 
   useEffect(() => {
@@ -74,10 +169,84 @@ export default function Comments({ photoId }: Props) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [photoId]);
 
+  // al desbloquear vuelven sus comentarios: se releen con la lista ya guardada
+  const restrictionsRef = useRef(restrictions);
+  useEffect(() => {
+    if (restrictionsRef.current === restrictions) return;
+    restrictionsRef.current = restrictions;
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [restrictions]);
+
+  // ✅ realtime: INSERT/DELETE de esta foto (mismo patrón de canal que Chat.tsx)
+  useEffect(() => {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const channel = supabase
+      .channel(`comments:${photoId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "comments", filter: `photo_id=eq.${photoId}` },
+        (payload) => {
+          const c = payload.new as Row;
+
+          setRows((prev) => (prev.some((r) => r.id === c.id) ? prev : [...prev, c]));
+          if (c.user_id === user?.id) return;
+
+          setFreshIds((prev) => new Set(prev).add(c.id));
+          const t = setTimeout(() => {
+            timers.delete(t);
+            setFreshIds((prev) => {
+              const next = new Set(prev);
+              next.delete(c.id);
+              return next;
+            });
+          }, FRESH_MS);
+          timers.add(t);
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "comments", filter: `photo_id=eq.${photoId}` },
+        (payload) => {
+          const c = payload.new as Row;
+          setRows((prev) => prev.map((r) => (r.id === c.id ? { ...r, ...c } : r)));
+        }
+      )
+      // DELETE no admite filtro en Realtime: se descarta lo que no está en rows
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "comments" }, (payload) => {
+        const id = (payload.old as Partial<Row>).id;
+        if (!id) return;
+        setRows((prev) => removeComment(prev, id));
+        setReplyTo((prev) => (prev === id ? null : prev));
+      })
+      .subscribe();
+
+    return () => {
+      timers.forEach(clearTimeout);
+      setFreshIds(new Set());
+      supabase.removeChannel(channel);
+    };
+  }, [photoId, user?.id]);
+
+  useEffect(() => {
+    if (loadedPhotoRef.current !== photoId) return;
+    onCountChange?.(photoId, rows.filter((r) => !r.deleted_at).length);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rows]);
+
+  useEffect(() => {
+    if (!targetId || scrolledToRef.current === targetId) return;
+    if (!rows.some((r) => r.id === targetId)) return;
+
+    scrolledToRef.current = targetId;
+    document.getElementById(`comment-${targetId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [targetId, rows]);
+
   async function submit() {
     setError("");
 
-    const body = text.trim();
+    const body = composeMention.encode(text.trim());
     if (!user) return setError("Inicia sesión para comentar.");
     if (!body) return;
 
@@ -93,6 +262,7 @@ export default function Comments({ photoId }: Props) {
     if (error) return setError(error.message);
 
     setText("");
+    composeMention.reset();
     setReplyTo(null);
     load();
   }
@@ -107,50 +277,126 @@ export default function Comments({ photoId }: Props) {
     try {
       setBusyId(id);
 
-      const { error } = await supabase.from("comments").delete().eq("id", id);
+      // ✅ el servidor decide: tombstone si tiene respuestas, borrado real si no
+      const { data: mode, error } = await supabase.rpc("delete_comment", { p_comment_id: id });
       if (error) return setError(error.message);
 
-      // remover localmente comentario y descendientes (mantienes UI limpia)
-      setRows((prev) => {
-        const byId = new Map(prev.map((r) => [r.id, r]));
-        const childrenByParent = new Map<string, string[]>();
-
-        for (const r of prev) {
-          if (r.parent_id) {
-            const arr = childrenByParent.get(r.parent_id) ?? [];
-            arr.push(r.id);
-            childrenByParent.set(r.parent_id, arr);
-          }
-        }
+      setRows((prev) =>
+        mode === "soft"
+          ? prev.map((r) => (r.id === id ? { ...r, body: "", deleted_at: new Date().toISOString() } : r))
+          : removeComment(prev, id)
+      );
+
+      if (replyTo === id) setReplyTo(null);
+      if (editingId === id) setEditingId(null);
+      if (historyFor === id) setHistoryFor(null);
+    } finally {
+      setBusyId(null);
+    }
+  }
 
-        const toRemove = new Set<string>();
-        const stack = [id];
+  function canEdit(c: Row) {
+    if (c.deleted_at || user?.id !== c.user_id) return false;
+    if (editWindowMin == null) return true;
+    return Date.now() - new Date(c.created_at).getTime() < editWindowMin * 60_000;
+  }
 
-        while (stack.length) {
-          const cur = stack.pop()!;
-          if (toRemove.has(cur)) continue;
-          toRemove.add(cur);
-          const kids = childrenByParent.get(cur) ?? [];
-          kids.forEach((k) => stack.push(k));
-        }
+  async function saveEdit(id: string) {
+    setError("");
 
-        if (!byId.has(id)) return prev;
-        return prev.filter((r) => !toRemove.has(r.id));
-      });
+    const body = editMention.encode(editText.trim());
+    if (!body) return setError("El comentario no puede quedar vacío.");
 
-      if (replyTo === id) setReplyTo(null);
+    try {
+      setBusyId(id);
+
+      const { data, error } = await supabase
+        .from("comments")
+        .update({ body })
+        .eq("id", id)
+        .select(COMMENT_COLUMNS)
+        .single();
+
+      if (error) return setError(error.message);
+
+      setRows((prev) => prev.map((r) => (r.id === id ? (data as Row) : r)));
+      setEditingId(null);
+      setEditText("");
+      if (historyFor === id) setHistoryFor(null);
     } finally {
       setBusyId(null);
     }
   }
 
-  function CommentNode({ c, depth = 0 }: { c: Node; depth?: number }) {
+  function startEdit(c: Row) {
+    // tokens → @Alias vigente para editar como texto
+    const { text, refs } = decodeMentions(c.body, (id) => profilesById.get(id)?.display_name || "Usuario");
+    setEditingId(c.id);
+    setEditText(text);
+    editMention.reset(refs);
+  }
+
+  async function toggleHistory(id: string) {
+    if (historyFor === id) return setHistoryFor(null);
+
+    setHistoryFor(id);
+    setHistory([]);
+    setHistoryLoading(true);
+
+    const { data, error } = await supabase
+      .from("comment_revisions")
+      .select("id,body,edited_at")
+      .eq("comment_id", id)
+      .order("edited_at", { ascending: false });
+
+    setHistoryLoading(false);
+    if (error) return setError(error.message);
+    setHistory((data ?? []) as Revision[]);
+  }
+
+  const linkBtn: React.CSSProperties = {
+    border: "none",
+    background: "none",
+    color: "#4da6ff",
+    fontWeight: 600,
+    cursor: "pointer",
+  };
+
+  // ✅ función (no componente anidado) para no remontar el textarea de edición en cada tecla
+  function renderComment(c: Node, depth = 0): React.ReactNode {
     const isOwner = user?.id === c.user_id;
+    const fresh = freshIds.has(c.id) || c.id === targetId;
+    const editing = editingId === c.id;
+
+    // ✅ tombstone: conserva el hilo, sin autor ni acciones
+    if (c.deleted_at) {
+      return (
+        <div
+          key={c.id}
+          id={`comment-${c.id}`}
+          style={{
+            border: "1px dashed #e5e5e5",
+            borderRadius: 12,
+            padding: 12,
+            marginTop: 10,
+            marginLeft: depth ? 16 : 0,
+          }}
+        >
+          <div style={{ fontStyle: "italic", opacity: 0.6 }}>[comentario eliminado]</div>
+
+          <div style={{ marginTop: 10 }}>{c.replies.map((r) => renderComment(r, depth + 1))}</div>
+        </div>
+      );
+    }
 
     return (
       <div
+        key={c.id}
+        id={`comment-${c.id}`}
         style={{
-          border: "1px solid #e5e5e5",
+          border: "1px solid " + (fresh ? "#4da6ff" : "#e5e5e5"),
+          background: fresh ? "rgba(77,166,255,0.08)" : undefined,
+          transition: "background 600ms ease, border-color 600ms ease",
           borderRadius: 12,
           padding: 12,
           marginTop: 10,
@@ -158,30 +404,111 @@ export default function Comments({ photoId }: Props) {
         }}
       >
         <div style={{ display: "flex", justifyContent: "space-between", gap: 10 }}>
-          <b>{c.display_name || "Usuario"}</b>
+          <b>
+            {c.display_name || "Usuario"}
+            {freshIds.has(c.id) && (
+              <span style={{ marginLeft: 8, fontSize: 11, color: "#4da6ff", fontWeight: 700 }}>nuevo</span>
+            )}
+          </b>
           <span style={{ opacity: 0.7, fontSize: 12 }}>
             {new Date(c.created_at).toLocaleString()}
+            {c.edited_at && (
+              <button
+                onClick={() => toggleHistory(c.id)}
+                style={{ ...linkBtn, color: "inherit", fontWeight: 400, fontSize: 12, padding: "0 0 0 6px" }}
+                title={`Editado ${new Date(c.edited_at).toLocaleString()} · ver historial`}
+              >
+                (editado)
+              </button>
+            )}
           </span>
         </div>
 
-        <div style={{ marginTop: 8, whiteSpace: "pre-wrap" }}>{c.body}</div>
+        {editing ? (
+          <div style={{ marginTop: 8 }}>
+            <div className="mentionBox">
+              <textarea
+                ref={editMention.inputRef}
+                value={editText}
+                onChange={editMention.handleChange}
+                onKeyDown={editMention.handleKeyDown}
+                onClick={editMention.handleClick}
+                onBlur={editMention.handleBlur}
+                rows={3}
+                autoFocus
+                style={{ width: "100%", padding: 10, borderRadius: 10 }}
+              />
+              <MentionSuggestions
+                suggestions={editMention.suggestions}
+                active={editMention.active}
+                onPick={editMention.pick}
+              />
+            </div>
+            <div style={{ display: "flex", justifyContent: "flex-end", gap: 8, marginTop: 8 }}>
+              <button onClick={() => setEditingId(null)} disabled={busyId === c.id}>
+                Cancelar
+              </button>
+              <button
+                onClick={() => saveEdit(c.id)}
+                disabled={busyId === c.id || !editText.trim() || editMention.encode(editText.trim()) === c.body}
+              >
+                {busyId === c.id ? "Guardando..." : "Guardar"}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div style={{ marginTop: 8, whiteSpace: "pre-wrap" }}>
+            <MentionText body={c.body} />
+          </div>
+        )}
 
-        <div style={{ marginTop: 10, display: "flex", gap: 12, alignItems: "center" }}>
-          <button
-            onClick={() => setReplyTo(c.id)}
+        {historyFor === c.id && (
+          <div
             style={{
-              border: "none",
-              background: "none",
-              color: "#4da6ff",
-              fontWeight: 600,
-              cursor: "pointer",
+              marginTop: 10,
+              padding: 10,
+              borderRadius: 10,
+              border: "1px dashed rgba(255,255,255,0.18)",
+              fontSize: 13,
             }}
           >
+            <b style={{ fontSize: 12, opacity: 0.8 }}>Historial de ediciones</b>
+            {historyLoading ? (
+              <div style={{ opacity: 0.7, marginTop: 6 }}>Cargando…</div>
+            ) : history.length === 0 ? (
+              <div style={{ opacity: 0.7, marginTop: 6 }}>Sin versiones anteriores.</div>
+            ) : (
+              history.map((h) => (
+                <div key={h.id} style={{ marginTop: 8 }}>
+                  <div style={{ opacity: 0.6, fontSize: 11 }}>
+                    Versión reemplazada el {new Date(h.edited_at).toLocaleString()}
+                  </div>
+                  <div style={{ whiteSpace: "pre-wrap", opacity: 0.85 }}>
+                    <MentionText body={h.body} />
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        <div style={{ marginTop: 10, display: "flex", gap: 12, alignItems: "center" }}>
+          <button onClick={() => setReplyTo(c.id)} style={linkBtn}>
             Responder
           </button>
 
           {replyTo === c.id && <span style={{ fontSize: 12, opacity: 0.7 }}>Respondiendo…</span>}
 
+          {canEdit(c) && !editing && (
+            <button
+              onClick={() => startEdit(c)}
+              style={linkBtn}
+              title="Editar comentario"
+            >
+              Editar
+            </button>
+          )}
+
           {isOwner && (
             <button
               onClick={() => deleteComment(c.id)}
@@ -202,9 +529,7 @@ export default function Comments({ photoId }: Props) {
 
         {c.replies.length > 0 && (
           <div style={{ marginTop: 10 }}>
-            {c.replies.map((r) => (
-              <CommentNode key={r.id} c={r} depth={depth + 1} />
-            ))}
+            {c.replies.map((r) => renderComment(r, depth + 1))}
           </div>
         )}
       </div>
@@ -236,14 +561,25 @@ export default function Comments({ photoId }: Props) {
           {replyTo && <button onClick={() => setReplyTo(null)}>Cancelar</button>}
         </div>
 
-        <textarea
-          value={text}
-          onChange={(e) => setText(e.target.value)}
-          rows={3}
-          style={{ width: "100%", marginTop: 10, padding: 10, borderRadius: 10 }}
-          disabled={!user}
-          placeholder={user ? "Escribe aquí..." : "Inicia sesión para comentar..."}
-        />
+        <div className="mentionBox" style={{ marginTop: 10 }}>
+          <textarea
+            ref={composeMention.inputRef}
+            value={text}
+            onChange={composeMention.handleChange}
+            onKeyDown={composeMention.handleKeyDown}
+            onClick={composeMention.handleClick}
+            onBlur={composeMention.handleBlur}
+            rows={3}
+            style={{ width: "100%", padding: 10, borderRadius: 10 }}
+            disabled={!user}
+            placeholder={user ? "Escribe aquí... (@ para mencionar)" : "Inicia sesión para comentar..."}
+          />
+          <MentionSuggestions
+            suggestions={composeMention.suggestions}
+            active={composeMention.active}
+            onPick={composeMention.pick}
+          />
+        </div>
 
         <div style={{ display: "flex", justifyContent: "flex-end", marginTop: 10 }}>
           <button onClick={submit} disabled={!user || !text.trim()}>
@@ -256,7 +592,7 @@ export default function Comments({ photoId }: Props) {
         {tree.length === 0 ? (
           <div style={{ opacity: 0.75 }}>Aún no hay comentarios.</div>
         ) : (
-          tree.map((c) => <CommentNode key={c.id} c={c} />)
+          tree.map((c) => renderComment(c))
         )}
       </div>
     </div>
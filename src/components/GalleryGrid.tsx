@@ -1,35 +1,120 @@
 // src/components/GalleryGrid.tsx
-import { buildImageUrl } from "../lib/cloudinary"
+import { useEffect } from "react"
+import { IMAGE_PRESETS } from "../lib/cloudinary"
+import CloudImage from "./CloudImage"
+import type { Photo } from "../hooks/usePhotos"
+import { useVirtualGrid } from "../hooks/useVirtualGrid"
 
-type Photo = { public_id: string }
+// mismas medidas que .grid en index.css (minmax(220px, 1fr), gap 14px, tarjetas 4:3)
+const MIN_COLUMN_WIDTH = 220
+const GAP = 14
 
 export default function GalleryGrid({
   photos,
   onSelect,
+  commentCounts,
+  reactionTotals,
+  loading = false,
+  error = "",
+  onRetry,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
 }: {
   photos: Photo[]
   onSelect: (id: string) => void
+  commentCounts?: Map<string, number>
+  reactionTotals?: Map<string, number>
+  loading?: boolean
+  error?: string
+  onRetry?: () => void
+  hasMore?: boolean
+  loadingMore?: boolean
+  onLoadMore?: () => void
 }) {
+  const grid = useVirtualGrid({
+    count: photos.length,
+    minColumnWidth: MIN_COLUMN_WIDTH,
+    gap: GAP,
+    aspect: 3 / 4,
+  })
+
+  // ✅ scroll infinito: pedir la siguiente página al acercarse al final
+  useEffect(() => {
+    if (grid.nearEnd && hasMore && !loading && !loadingMore) onLoadMore?.()
+  }, [grid.nearEnd, hasMore, loading, loadingMore, onLoadMore])
+
   return (
-    <div className="grid">
-      {photos.map((p) => (
-        <button
-          key={p.public_id}
-          className="card"
-          onClick={() => onSelect(p.public_id)}
+    <>
+      {error && (
+        <div className="gridStatus gridError">
+          <span>No se pudo cargar el álbum: {error}</span>
+          {onRetry && (
+            <button type="button" className="btn" onClick={onRetry}>
+              Reintentar
+            </button>
+          )}
+        </div>
+      )}
+
+      {loading && photos.length === 0 && <div className="gridStatus muted">Cargando fotos…</div>}
+      {!loading && photos.length === 0 && (
+        <div className="gridStatus muted">Aún no hay fotos en este álbum.</div>
+      )}
+
+      {/* ✅ grilla virtual: alto total reservado, solo se montan las filas visibles */}
+      <div ref={grid.containerRef} className="virtualGrid" style={{ height: grid.totalHeight }}>
+        <div
+          className="grid"
+          style={{
+            transform: `translateY(${grid.offsetY}px)`,
+            gridTemplateColumns: `repeat(${grid.columns}, minmax(0, 1fr))`,
+            gridAutoRows: grid.rowHeight,
+          }}
         >
-          <img
-            className="cardImg"
-            src={buildImageUrl(p.public_id, 900)}
-            alt=""
-            loading="lazy"
-          />
-
-          <div className="cardOverlay">
-            <span className="openText">Pulsa para abrir</span>
-          </div>
-        </button>
-      ))}
-    </div>
+          {photos.slice(grid.startIndex, grid.endIndex).map((p) => {
+            const count = commentCounts?.get(p.public_id) ?? 0
+            const reactions = reactionTotals?.get(p.public_id) ?? 0
+
+            return (
+              <button
+                key={p.public_id}
+                className="card"
+                onClick={() => onSelect(p.public_id)}
+              >
+                <CloudImage
+                  className="cardImg"
+                  publicId={p.public_id}
+                  preset={IMAGE_PRESETS.grid}
+                  alt={p.caption ?? ""}
+                  loading="lazy"
+                />
+
+                {(count > 0 || reactions > 0) && (
+                  <div className="cardBadges">
+                    {reactions > 0 && (
+                      <span className="cardBadge" title={`${reactions} reacciones`}>
+                        ❤️ {reactions}
+                      </span>
+                    )}
+                    {count > 0 && (
+                      <span className="cardBadge" title={`${count} comentarios`}>
+                        💬 {count}
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                <div className="cardOverlay">
+                  <span className="openText">Pulsa para abrir</span>
+                </div>
+              </button>
+            )
+          })}
+        </div>
+      </div>
+
+      {loadingMore && <div className="gridStatus muted">Cargando más fotos…</div>}
+    </>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,191 @@
+// src/components/GroupMembersPanel.tsx
+import { useEffect, useMemo, useState } from "react";
+import type { GroupChat, GroupMember, GroupRole } from "../hooks/useGroupChats";
+import type { Profile } from "../hooks/useProfiles";
+
+type Props = {
+  group: GroupChat;
+  me: string;
+  profiles: Profile[];
+  profileById: Map<string, Profile>;
+  loadMembers: (groupId: string) => Promise<GroupMember[]>;
+  addMember: (groupId: string, userId: string) => Promise<boolean>;
+  removeMember: (groupId: string, userId: string) => Promise<boolean>;
+  setRole: (groupId: string, userId: string, role: GroupRole) => Promise<boolean>;
+  leave: (groupId: string) => Promise<boolean>;
+  onLeft: () => void;
+};
+
+const smallBtn: React.CSSProperties = {
+  border: "1px solid rgba(255,255,255,0.10)",
+  background: "rgba(255,255,255,0.04)",
+  color: "inherit",
+  borderRadius: 10,
+  padding: "3px 8px",
+  fontSize: 12,
+  cursor: "pointer",
+};
+
+/** Miembros de un grupo; los admins añaden, quitan y nombran admins. */
+export default function GroupMembersPanel({
+  group,
+  me,
+  profiles,
+  profileById,
+  loadMembers,
+  addMember,
+  removeMember,
+  setRole,
+  leave,
+  onLeft,
+}: Props) {
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [adding, setAdding] = useState("");
+
+  const isChannel = group.kind === "channel";
+  const isAdmin = group.role === "admin" && !isChannel;
+
+  const refresh = async () => {
+    setMembers(await loadMembers(group.id));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    refresh();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [group.id, group.member_count]);
+
+  const candidates = useMemo(() => {
+    const inGroup = new Set(members.map((m) => m.user_id));
+    return profiles.filter((p) => !inGroup.has(p.id));
+  }, [profiles, members]);
+
+  const act = async (fn: () => Promise<boolean>) => {
+    setBusy(true);
+    try {
+      if (await fn()) await refresh();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const nameOf = (id: string) => (id === me ? "Tú" : profileById.get(id)?.display_name || "Usuario");
+
+  return (
+    <div
+      style={{
+        marginTop: 10,
+        border: "1px solid rgba(255,255,255,0.10)",
+        borderRadius: 14,
+        padding: 10,
+        maxHeight: 240,
+        overflow: "auto",
+        fontSize: 13,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+        <b>Miembros ({members.length || group.member_count})</b>
+        {!isChannel && (
+          <button
+            type="button"
+            disabled={busy}
+            style={{ ...smallBtn, color: "crimson" }}
+            onClick={() => {
+              if (!window.confirm(`¿Salir de "${group.name}"?`)) return;
+              act(async () => {
+                const ok = await leave(group.id);
+                if (ok) onLeft();
+                return false;
+              });
+            }}
+          >
+            Salir del grupo
+          </button>
+        )}
+      </div>
+
+      {isChannel && (
+        <div style={{ opacity: 0.7, marginTop: 6 }}>Canal general: incluye a todos los miembros.</div>
+      )}
+
+      {isAdmin && candidates.length > 0 && (
+        <div style={{ display: "flex", gap: 6, marginTop: 8 }}>
+          <select
+            value={adding}
+            onChange={(e) => setAdding(e.target.value)}
+            style={{
+              flex: 1,
+              borderRadius: 10,
+              background: "rgba(255,255,255,0.04)",
+              color: "inherit",
+              border: "1px solid rgba(255,255,255,0.10)",
+              padding: "4px 6px",
+            }}
+          >
+            <option value="">Añadir miembro…</option>
+            {candidates.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.display_name || "Usuario"}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            disabled={!adding || busy}
+            style={smallBtn}
+            onClick={() =>
+              act(async () => {
+                const ok = await addMember(group.id, adding);
+                if (ok) setAdding("");
+                return ok;
+              })
+            }
+          >
+            Añadir
+          </button>
+        </div>
+      )}
+
+      <div style={{ display: "flex", flexDirection: "column", gap: 6, marginTop: 8 }}>
+        {loading ? (
+          <div style={{ opacity: 0.7 }}>Cargando…</div>
+        ) : (
+          members.map((m) => (
+            <div key={m.user_id} style={{ display: "flex", alignItems: "center", gap: 8 }}>
+              <span style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                {nameOf(m.user_id)}
+                {m.role === "admin" && !isChannel && (
+                  <span style={{ marginLeft: 6, fontSize: 11, opacity: 0.7 }}>admin</span>
+                )}
+              </span>
+
+              {isAdmin && m.user_id !== me && (
+                <>
+                  <button
+                    type="button"
+                    disabled={busy}
+                    style={smallBtn}
+                    onClick={() => act(() => setRole(group.id, m.user_id, m.role === "admin" ? "member" : "admin"))}
+                  >
+                    {m.role === "admin" ? "Quitar admin" : "Hacer admin"}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={busy}
+                    style={{ ...smallBtn, color: "crimson" }}
+                    onClick={() => act(() => removeMember(group.id, m.user_id))}
+                  >
+                    Quitar
+                  </button>
+                </>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
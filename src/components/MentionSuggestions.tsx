@@ -0,0 +1,38 @@
+// src/components/MentionSuggestions.tsx
+import type { Profile } from "../hooks/useProfiles";
+
+/** Lista de `@alias` bajo (o sobre) el input; va dentro de un `.mentionBox`. */
+export default function MentionSuggestions({
+  suggestions,
+  active,
+  onPick,
+  placement = "below",
+}: {
+  suggestions: Profile[];
+  active: number;
+  onPick: (p: Profile) => void;
+  placement?: "below" | "above";
+}) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className={`mentionList ${placement}`} role="listbox">
+      {suggestions.map((p, i) => (
+        <button
+          key={p.id}
+          type="button"
+          role="option"
+          aria-selected={i === active}
+          className={i === active ? "active" : undefined}
+          // ✅ mousedown: elegir sin que el input pierda el foco (blur cerraría la lista)
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onPick(p);
+          }}
+        >
+          @{p.display_name}
+        </button>
+      ))}
+    </div>
+  );
+}
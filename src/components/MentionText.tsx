@@ -0,0 +1,35 @@
+// src/components/MentionText.tsx
+import { useProfiles } from "../hooks/useProfiles";
+import { splitMentions } from "../lib/mentions";
+import { navigate, taggedPath } from "../lib/router";
+
+/** Cuerpo de comentario/mensaje con `<@uuid>` → enlace con el alias vigente. */
+export default function MentionText({ body }: { body: string }) {
+  const { byId } = useProfiles();
+
+  return (
+    <>
+      {splitMentions(body).map((seg, i) => {
+        if (seg.type === "text") return seg.text;
+
+        const name = byId.get(seg.userId)?.display_name || "Usuario";
+        const href = taggedPath(seg.userId);
+
+        return (
+          <a
+            key={i}
+            className="mention"
+            href={href}
+            onClick={(e) => {
+              e.preventDefault();
+              navigate(href);
+            }}
+            title={`Ver fotos de ${name}`}
+          >
+            @{name}
+          </a>
+        );
+      })}
+    </>
+  );
+}
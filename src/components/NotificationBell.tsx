@@ -0,0 +1,120 @@
+// src/components/NotificationBell.tsx
+import { useEffect, useRef, useState } from "react";
+import { useAuth } from "../hooks/useAuth";
+import { useNotifications, type AppNotification } from "../hooks/useNotifications";
+import { useProfiles } from "../hooks/useProfiles";
+import { mentionsToText } from "../lib/mentions";
+import { chatPath, commentPath, groupChatPath, navigate, photoPath } from "../lib/router";
+
+function describe(n: AppNotification) {
+  if (n.kind === "reply") return "respondió a tu comentario";
+  if (n.kind === "message") return "te envió un mensaje";
+  return n.message_id ? "te mencionó en un mensaje" : "te mencionó en un comentario";
+}
+
+function linkFor(n: AppNotification) {
+  if (n.photo_id && n.comment_id) return commentPath(n.photo_id, n.comment_id);
+  if (n.conversation_id) return groupChatPath(n.conversation_id);
+  if (n.peer_id) return chatPath(n.peer_id);
+  if (n.photo_id) return photoPath(n.photo_id);
+  return null;
+}
+
+/** Campana junto a AccountMenu: sin leer + últimas notificaciones con enlace. */
+export default function NotificationBell() {
+  const { user } = useAuth();
+  const { items, unread, loading, error, markRead, markAllRead } = useNotifications();
+  const { byId } = useProfiles();
+
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  // ✅ mismo cierre que AccountMenu: clic fuera o Esc
+  useEffect(() => {
+    if (!open) return;
+
+    const onMouseDown = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+
+    document.addEventListener("mousedown", onMouseDown);
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", onMouseDown);
+      document.removeEventListener("keydown", onKeyDown);
+    };
+  }, [open]);
+
+  if (!user) return null;
+
+  const nameOf = (id: string | null) => (id && byId.get(id)?.display_name) || "Usuario";
+
+  const openItem = (n: AppNotification) => {
+    markRead(n.id);
+    setOpen(false);
+    const href = linkFor(n);
+    if (href) navigate(href);
+  };
+
+  return (
+    <div ref={rootRef} className="notifRoot">
+      <button
+        type="button"
+        className="notifBell"
+        onClick={() => setOpen((v) => !v)}
+        aria-label={unread > 0 ? `Notificaciones (${unread} sin leer)` : "Notificaciones"}
+      >
+        🔔
+        {unread > 0 && <span className="notifBadge">{unread > 99 ? "99+" : unread}</span>}
+      </button>
+
+      {open && (
+        <div className="notifPanel">
+          <div className="notifHeader">
+            <b>Notificaciones</b>
+            <button type="button" className="notifLink" onClick={markAllRead} disabled={unread === 0}>
+              Marcar todas como leídas
+            </button>
+          </div>
+
+          {error && <div style={{ color: "crimson", fontSize: 13, padding: "6px 4px" }}>{error}</div>}
+
+          <div className="notifList">
+            {loading && items.length === 0 ? (
+              <div className="muted notifEmpty">Cargando…</div>
+            ) : items.length === 0 ? (
+              <div className="muted notifEmpty">No tienes notificaciones.</div>
+            ) : (
+              items.map((n) => (
+                <div key={n.id} className={n.read_at ? "notifItem" : "notifItem unread"}>
+                  <button type="button" className="notifMain" onClick={() => openItem(n)}>
+                    <span>
+                      <b>{nameOf(n.actor_id)}</b> {describe(n)}
+                    </span>
+                    {n.snippet && (
+                      <span className="notifSnippet">{mentionsToText(n.snippet, (id) => nameOf(id))}</span>
+                    )}
+                    <span className="notifTime">{new Date(n.created_at).toLocaleString()}</span>
+                  </button>
+
+                  {!n.read_at && (
+                    <button
+                      type="button"
+                      className="notifDot"
+                      onClick={() => markRead(n.id)}
+                      title="Marcar como leída"
+                      aria-label="Marcar como leída"
+                    />
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,137 @@
 // src/components/PhotoModal.tsx
-import { buildImageUrl } from "../lib/cloudinary"
+import { useEffect, useRef } from "react"
+import { buildImageUrl, buildSrcSet, IMAGE_PRESETS } from "../lib/cloudinary"
+import CloudImage from "./CloudImage"
+
+const SWIPE_MIN_PX = 50
 
 export default function PhotoModal({
   publicId,
+  width,
+  height,
+  prevId = null,
+  nextId = null,
+  onNavigate,
   onClose,
+  actions,
+  overlay,
   children,
 }: {
   publicId: string
+  width?: number | null
+  height?: number | null
+  /** vecinos según el orden actual de la galería */
+  prevId?: string | null
+  nextId?: string | null
+  onNavigate?: (id: string) => void
   onClose: () => void
+  /** controles extra en la barra del modal (p. ej. reacciones) */
+  actions?: React.ReactNode
+  /** capa posicionada sobre la imagen (p. ej. etiquetas de personas) */
+  overlay?: React.ReactNode
   children?: React.ReactNode
 }) {
+  const touchRef = useRef<{ x: number; y: number } | null>(null)
+
+  // ✅ bloquear el scroll de la página mientras está abierto y devolverlo
+  // exactamente donde estaba al cerrar (la galería sigue montada detrás)
+  useEffect(() => {
+    const scrollY = window.scrollY
+    const prevOverflow = document.body.style.overflow
+    document.body.style.overflow = "hidden"
+
+    return () => {
+      document.body.style.overflow = prevOverflow
+      window.scrollTo(0, scrollY)
+    }
+  }, [])
+
+  // ✅ teclado: ← → para navegar, Esc para cerrar
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target?.closest("input, textarea")) return
+
+      if (e.key === "Escape") onClose()
+      else if (e.key === "ArrowLeft" && prevId) onNavigate?.(prevId)
+      else if (e.key === "ArrowRight" && nextId) onNavigate?.(nextId)
+    }
+
+    document.addEventListener("keydown", onKeyDown)
+    return () => document.removeEventListener("keydown", onKeyDown)
+  }, [prevId, nextId, onNavigate, onClose])
+
+  // ✅ precarga de las fotos vecinas (mismo srcset/sizes → misma variante que se mostrará)
+  useEffect(() => {
+    const { transform, widths, sizes } = IMAGE_PRESETS.modal
+    ;[prevId, nextId].forEach((id) => {
+      if (!id) return
+      const img = new Image()
+      img.sizes = sizes
+      img.srcset = buildSrcSet(id, widths, transform)
+      img.src = buildImageUrl(id, { ...transform, width: widths[widths.length - 1] })
+    })
+  }, [prevId, nextId])
+
+  const onTouchStart = (e: React.TouchEvent) => {
+    const t = e.touches[0]
+    touchRef.current = { x: t.clientX, y: t.clientY }
+  }
+
+  const onTouchEnd = (e: React.TouchEvent) => {
+    const start = touchRef.current
+    touchRef.current = null
+    if (!start) return
+
+    const t = e.changedTouches[0]
+    const dx = t.clientX - start.x
+    const dy = t.clientY - start.y
+    if (Math.abs(dx) < SWIPE_MIN_PX || Math.abs(dx) < Math.abs(dy)) return
+
+    if (dx > 0 && prevId) onNavigate?.(prevId)
+    else if (dx < 0 && nextId) onNavigate?.(nextId)
+  }
+
   return (
     <div className="backdrop" onClick={onClose}>
       <div className="modal" onClick={(e) => e.stopPropagation()}>
-        <img className="full" src={buildImageUrl(publicId, 1600)} alt="" />
+        <div className="modalStage" onTouchStart={onTouchStart} onTouchEnd={onTouchEnd}>
+          <div className="modalFigure">
+            <CloudImage
+              key={publicId}
+              className="full"
+              publicId={publicId}
+              preset={IMAGE_PRESETS.modal}
+              width={width}
+              height={height}
+            />
+            {overlay}
+          </div>
+
+          {prevId && (
+            <button
+              type="button"
+              className="modalNav prev"
+              onClick={() => onNavigate?.(prevId)}
+              aria-label="Foto anterior"
+            >
+              ‹
+            </button>
+          )}
+          {nextId && (
+            <button
+              type="button"
+              className="modalNav next"
+              onClick={() => onNavigate?.(nextId)}
+              aria-label="Foto siguiente"
+            >
+              ›
+            </button>
+          )}
+        </div>
 
         <div className="modalBar">
+          {actions}
           <button className="btn" onClick={onClose}>Cerrar</button>
         </div>
 
@@ -25,4 +141,4 @@ export default function PhotoModal({
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
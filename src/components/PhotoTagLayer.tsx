@@ -0,0 +1,102 @@
+// src/components/PhotoTagLayer.tsx
+import { useMemo, useState } from "react"
+import type { PhotoTag } from "../hooks/usePhotoTags"
+import type { Profile } from "../hooks/useProfiles"
+
+/**
+ * Capa sobre la imagen de PhotoModal: marcadores de etiquetas (nombre al
+ * pasar el mouse) y, en modo etiquetar, clic en un punto → elegir persona.
+ */
+export default function PhotoTagLayer({
+  tags,
+  profiles,
+  profilesById,
+  tagMode,
+  onAdd,
+}: {
+  tags: PhotoTag[]
+  profiles: Profile[]
+  profilesById: Map<string, Profile>
+  tagMode: boolean
+  onAdd: (userId: string, x: number, y: number) => void
+}) {
+  const [pending, setPending] = useState<{ x: number; y: number } | null>(null)
+  const [query, setQuery] = useState("")
+
+  const candidates = useMemo(() => {
+    const taken = new Set(tags.map((t) => t.tagged_user_id))
+    const q = query.trim().toLowerCase()
+
+    return profiles
+      .filter((p) => !taken.has(p.id))
+      .filter((p) => !q || (p.display_name ?? "").toLowerCase().includes(q))
+      .slice(0, 6)
+  }, [profiles, tags, query])
+
+  const pick = (userId: string) => {
+    if (!pending) return
+    onAdd(userId, pending.x, pending.y)
+    setPending(null)
+    setQuery("")
+  }
+
+  const pct = (v: number) => `${(v * 100).toFixed(2)}%`
+
+  return (
+    <div className={tagMode ? "tagLayer tagging" : "tagLayer"}>
+      {tagMode && (
+        <div
+          className="tagCapture"
+          onClick={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect()
+            const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width))
+            const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+            setPending({ x, y })
+            setQuery("")
+          }}
+        />
+      )}
+
+      {tags.map((t) => (
+        <div key={t.id} className="tagMarker" style={{ left: pct(t.x), top: pct(t.y) }}>
+          <span className="tagLabel">{profilesById.get(t.tagged_user_id)?.display_name || "Usuario"}</span>
+        </div>
+      ))}
+
+      {tagMode && pending && (
+        <div
+          className="tagPicker"
+          style={{
+            left: pct(Math.min(pending.x, 0.7)),
+            top: pct(Math.min(pending.y, 0.55)),
+          }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="¿Quién es?"
+            onKeyDown={(e) => {
+              if (e.key === "Escape") setPending(null)
+              if (e.key === "Enter" && candidates[0]) pick(candidates[0].id)
+            }}
+          />
+          <div className="tagPickerList">
+            {candidates.length === 0 ? (
+              <div className="muted" style={{ fontSize: 12, padding: 6 }}>Sin resultados</div>
+            ) : (
+              candidates.map((p) => (
+                <button key={p.id} type="button" onClick={() => pick(p.id)}>
+                  {p.display_name || "Usuario"}
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
+      {tagMode && pending && <div className="tagMarker pending" style={{ left: pct(pending.x), top: pct(pending.y) }} />}
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+// src/components/PhotoTagList.tsx
+import type { PhotoTag } from "../hooks/usePhotoTags"
+import type { Profile } from "../hooks/useProfiles"
+import { navigate, taggedPath } from "../lib/router"
+
+export default function PhotoTagList({
+  tags,
+  profilesById,
+  canRemove,
+  onRemove,
+  error,
+}: {
+  tags: PhotoTag[]
+  profilesById: Map<string, Profile>
+  canRemove: (t: PhotoTag) => boolean
+  onRemove: (id: string) => void
+  error?: string
+}) {
+  if (tags.length === 0 && !error) return null
+
+  return (
+    <div className="tagList">
+      {tags.length > 0 && <span className="muted">En esta foto:</span>}
+
+      {tags.map((t) => {
+        const name = profilesById.get(t.tagged_user_id)?.display_name || "Usuario"
+
+        return (
+          <span key={t.id} className="tagChip">
+            <a
+              href={taggedPath(t.tagged_user_id)}
+              onClick={(e) => {
+                e.preventDefault()
+                navigate(taggedPath(t.tagged_user_id))
+              }}
+              title={`Ver fotos de ${name}`}
+            >
+              {name}
+            </a>
+
+            {canRemove(t) && (
+              <button type="button" onClick={() => onRemove(t.id)} aria-label={`Quitar etiqueta de ${name}`}>
+                ✕
+              </button>
+            )}
+          </span>
+        )
+      })}
+
+      {error && <span style={{ color: "crimson" }}>{error}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+// src/components/ReactionBar.tsx
+import { REACTION_EMOJIS, type ReactionCounts, type ReactionEmoji } from "../hooks/useReactions"
+
+export default function ReactionBar({
+  photoId,
+  counts,
+  hasReacted,
+  onToggle,
+  disabled = false,
+}: {
+  photoId: string
+  counts?: ReactionCounts
+  hasReacted: (photoId: string, emoji: ReactionEmoji) => boolean
+  onToggle: (photoId: string, emoji: ReactionEmoji) => void
+  disabled?: boolean
+}) {
+  return (
+    <div className="reactionBar">
+      {REACTION_EMOJIS.map((emoji) => {
+        const count = counts?.[emoji] ?? 0
+        const active = hasReacted(photoId, emoji)
+
+        return (
+          <button
+            key={emoji}
+            type="button"
+            className={active ? "reactionBtn active" : "reactionBtn"}
+            onClick={() => onToggle(photoId, emoji)}
+            disabled={disabled}
+            aria-pressed={active}
+            title={disabled ? "Inicia sesión para reaccionar" : undefined}
+          >
+            <span>{emoji}</span>
+            {count > 0 && <span className="reactionCount">{count}</span>}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+// src/components/SharePhotoButton.tsx
+import { useEffect, useMemo, useRef, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+import { useAuth } from "../hooks/useAuth";
+import { useProfiles } from "../hooks/useProfiles";
+import { photoMessageBody } from "../lib/chatPhotos";
+import { chatPath, groupChatPath, navigate } from "../lib/router";
+
+type ShareTarget = { kind: "dm" | "group"; id: string; name: string };
+
+/** "Compartir por chat" en la barra de PhotoModal: la foto va como mensaje (photo_id). */
+export default function SharePhotoButton({ publicId }: { publicId: string }) {
+  const { user } = useAuth();
+  const me = user?.id ?? null;
+  const { profiles } = useProfiles();
+
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [comment, setComment] = useState("");
+  const [groups, setGroups] = useState<ShareTarget[]>([]);
+  const [sending, setSending] = useState<string | null>(null);
+  const [sent, setSent] = useState<ShareTarget | null>(null);
+  const [error, setError] = useState("");
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  // ✅ otra foto → estado limpio
+  useEffect(() => {
+    setOpen(false);
+    setComment("");
+    setSent(null);
+    setError("");
+  }, [publicId]);
+
+  // mis grupos (+ canal general) al abrir
+  useEffect(() => {
+    if (!open || !me) return;
+    let cancelled = false;
+
+    supabase.rpc("my_conversations").then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) return setError(error.message);
+      const rows = (data ?? []) as { id: string; kind: "group" | "channel"; name: string }[];
+      setGroups(
+        rows.map((g) => ({ kind: "group", id: g.id, name: g.kind === "channel" ? `# ${g.name}` : g.name }))
+      );
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, me]);
+
+  // ✅ clic fuera cierra (Esc se maneja en el panel para no cerrar también el modal)
+  useEffect(() => {
+    if (!open) return;
+
+    const onMouseDown = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+
+    document.addEventListener("mousedown", onMouseDown);
+    return () => document.removeEventListener("mousedown", onMouseDown);
+  }, [open]);
+
+  const targets = useMemo(() => {
+    const people: ShareTarget[] = profiles
+      .filter((p) => p.id !== me)
+      .map((p) => ({ kind: "dm", id: p.id, name: p.display_name || "Usuario" }));
+
+    const q = query.trim().toLowerCase();
+    return [...groups, ...people].filter((t) => !q || t.name.toLowerCase().includes(q));
+  }, [profiles, groups, me, query]);
+
+  if (!me) return null;
+
+  const share = async (t: ShareTarget) => {
+    setSending(t.id);
+    setError("");
+
+    const { error } = await supabase.from("messages").insert({
+      id: crypto.randomUUID(),
+      sender_id: me,
+      receiver_id: t.kind === "dm" ? t.id : null,
+      conversation_id: t.kind === "group" ? t.id : null,
+      photo_id: publicId,
+      body: photoMessageBody(comment),
+    });
+
+    setSending(null);
+    if (error) return setError(error.message);
+
+    setSent(t);
+    setComment("");
+    setQuery("");
+  };
+
+  const openChat = (t: ShareTarget) => navigate(t.kind === "dm" ? chatPath(t.id) : groupChatPath(t.id));
+
+  return (
+    <div ref={rootRef} className="shareRoot">
+      <button
+        type="button"
+        className={open ? "btn active" : "btn"}
+        onClick={() => {
+          setOpen((v) => !v);
+          setSent(null);
+        }}
+      >
+        Compartir por chat
+      </button>
+
+      {open && (
+        <div
+          className="sharePanel"
+          onKeyDown={(e) => {
+            if (e.key !== "Escape") return;
+            e.stopPropagation();
+            setOpen(false);
+          }}
+        >
+          {sent && (
+            <div className="shareSent">
+              Enviada a <b>{sent.name}</b> ·{" "}
+              <button type="button" className="notifLink" onClick={() => openChat(sent)}>
+                Abrir chat
+              </button>
+            </div>
+          )}
+
+          <input value={comment} onChange={(e) => setComment(e.target.value)} placeholder="Añade un comentario (opcional)" />
+          <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Buscar persona o grupo…" autoFocus />
+
+          {error && <div style={{ color: "crimson", fontSize: 13 }}>{error}</div>}
+
+          <div className="shareList">
+            {targets.length === 0 ? (
+              <div className="muted notifEmpty">Sin resultados.</div>
+            ) : (
+              targets.map((t) => (
+                <button key={`${t.kind}:${t.id}`} type="button" disabled={!!sending} onClick={() => share(t)}>
+                  <span>{t.name}</span>
+                  <span className="muted">{sending === t.id ? "Enviando…" : t.kind === "group" ? "Grupo" : "Mensaje"}</span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
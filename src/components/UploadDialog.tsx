@@ -0,0 +1,242 @@
+// src/components/UploadDialog.tsx
+import { useEffect, useRef, useState } from "react";
+import { useAuth } from "../hooks/useAuth";
+import { registerPhoto, type Photo } from "../hooks/usePhotos";
+import {
+  ACCEPTED_UPLOAD_TYPES,
+  requestUploadSignature,
+  uploadImage,
+  validateImageFile,
+  type UploadResult,
+} from "../lib/cloudinary";
+
+type Props = {
+  onClose: () => void;
+  onUploaded: (photo: Photo) => void;
+};
+
+type Status = "invalid" | "queued" | "uploading" | "registering" | "done" | "error";
+
+type Item = {
+  key: string;
+  file: File;
+  previewUrl: string;
+  status: Status;
+  progress: number;
+  error: string;
+  // ✅ si Cloudinary ya respondió, reintentar solo registra la fila
+  result: UploadResult | null;
+};
+
+const MAX_PARALLEL = 2;
+
+const STATUS_LABEL: Record<Status, string> = {
+  invalid: "No válido",
+  queued: "En cola",
+  uploading: "Subiendo",
+  registering: "Guardando",
+  done: "Listo",
+  error: "Error",
+};
+
+export default function UploadDialog({ onClose, onUploaded }: Props) {
+  const { user, session } = useAuth();
+
+  const [items, setItems] = useState<Item[]>([]);
+  const [dragOver, setDragOver] = useState(false);
+
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const itemsRef = useRef<Item[]>([]);
+  itemsRef.current = items;
+
+  const patch = (key: string, changes: Partial<Item>) => {
+    setItems((prev) => prev.map((it) => (it.key === key ? { ...it, ...changes } : it)));
+  };
+
+  // ✅ cleanup: cancelar subidas en curso + liberar previews
+  useEffect(() => {
+    const abort = new AbortController();
+    abortRef.current = abort;
+    return () => {
+      abort.abort();
+      itemsRef.current.forEach((it) => URL.revokeObjectURL(it.previewUrl));
+    };
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  function addFiles(list: FileList | File[]) {
+    const next: Item[] = Array.from(list).map((file) => {
+      const invalid = validateImageFile(file);
+      return {
+        key: crypto.randomUUID(),
+        file,
+        previewUrl: URL.createObjectURL(file),
+        status: invalid ? "invalid" : "queued",
+        progress: 0,
+        error: invalid ?? "",
+        result: null,
+      };
+    });
+
+    setItems((prev) => [...prev, ...next]);
+  }
+
+  async function runItem(item: Item) {
+    const signal = abortRef.current?.signal;
+
+    try {
+      if (!user || !session) throw new Error("Inicia sesión para subir fotos.");
+
+      let result = item.result;
+      if (!result) {
+        const sig = await requestUploadSignature(session.access_token);
+        result = await uploadImage(item.file, sig, (progress) => patch(item.key, { progress }), signal);
+        patch(item.key, { result, progress: 1 });
+      }
+
+      patch(item.key, { status: "registering" });
+
+      const photo = await registerPhoto({
+        public_id: result.public_id,
+        width: result.width,
+        height: result.height,
+        uploaded_by: user.id,
+      });
+
+      patch(item.key, { status: "done" });
+      onUploaded(photo);
+    } catch (e: any) {
+      if (signal?.aborted) return;
+      patch(item.key, { status: "error", error: e?.message ?? "Error de subida" });
+    }
+  }
+
+  // ✅ cola simple: como máximo MAX_PARALLEL subidas a la vez
+  useEffect(() => {
+    const active = items.filter((it) => it.status === "uploading" || it.status === "registering").length;
+    const toStart = items.filter((it) => it.status === "queued").slice(0, Math.max(0, MAX_PARALLEL - active));
+    if (toStart.length === 0) return;
+
+    const keys = new Set(toStart.map((it) => it.key));
+    setItems((prev) =>
+      prev.map((it) => (keys.has(it.key) ? { ...it, status: "uploading", error: "" } : it))
+    );
+    toStart.forEach((it) => runItem(it));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [items]);
+
+  function retry(key: string) {
+    patch(key, { status: "queued", error: "" });
+  }
+
+  function remove(key: string) {
+    setItems((prev) => {
+      const it = prev.find((x) => x.key === key);
+      if (it) URL.revokeObjectURL(it.previewUrl);
+      return prev.filter((x) => x.key !== key);
+    });
+  }
+
+  const pending = items.some((it) => ["queued", "uploading", "registering"].includes(it.status));
+  const doneCount = items.filter((it) => it.status === "done").length;
+
+  return (
+    <div className="backdrop" onClick={onClose}>
+      <div className="modal uploadDialog" onClick={(e) => e.stopPropagation()}>
+        <div className="modalBar uploadHeader">
+          <b>Subir fotos</b>
+          <button className="btn" onClick={onClose}>
+            {pending ? "Cerrar (cancela)" : "Cerrar"}
+          </button>
+        </div>
+
+        <div className="modalBody">
+          {!user ? (
+            <div className="muted">Inicia sesión para subir fotos.</div>
+          ) : (
+            <>
+              <div
+                className={dragOver ? "dropzone active" : "dropzone"}
+                onClick={() => inputRef.current?.click()}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDragOver(true);
+                }}
+                onDragLeave={() => setDragOver(false)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  setDragOver(false);
+                  if (e.dataTransfer.files.length) addFiles(e.dataTransfer.files);
+                }}
+              >
+                <div style={{ fontWeight: 800 }}>Arrastra tus fotos aquí</div>
+                <div className="muted" style={{ fontSize: 13, marginTop: 4 }}>
+                  o pulsa para elegir (JPG, PNG, WEBP, HEIC)
+                </div>
+
+                <input
+                  ref={inputRef}
+                  type="file"
+                  accept={ACCEPTED_UPLOAD_TYPES.join(",")}
+                  multiple
+                  hidden
+                  onChange={(e) => {
+                    if (e.target.files?.length) addFiles(e.target.files);
+                    e.target.value = "";
+                  }}
+                />
+              </div>
+
+              {items.length > 0 && (
+                <div className="muted" style={{ fontSize: 13, margin: "12px 0 6px" }}>
+                  {doneCount} de {items.length} listas
+                </div>
+              )}
+
+              <div className="uploadList">
+                {items.map((it) => (
+                  <div key={it.key} className="uploadItem">
+                    <img className="uploadThumb" src={it.previewUrl} alt="" />
+
+                    <div style={{ minWidth: 0, flex: 1 }}>
+                      <div className="uploadName">{it.file.name}</div>
+                      <div className="uploadProgress">
+                        <div style={{ width: `${Math.round(it.progress * 100)}%` }} />
+                      </div>
+                      <div style={{ fontSize: 12, marginTop: 4 }}>
+                        <span className={it.status === "error" || it.status === "invalid" ? "uploadErr" : "muted"}>
+                          {STATUS_LABEL[it.status]}
+                          {it.status === "uploading" && ` ${Math.round(it.progress * 100)}%`}
+                          {it.error && ` · ${it.error}`}
+                        </span>
+                      </div>
+                    </div>
+
+                    {it.status === "error" && (
+                      <button className="btn" onClick={() => retry(it.key)}>
+                        Reintentar
+                      </button>
+                    )}
+                    {(it.status === "error" || it.status === "invalid" || it.status === "done") && (
+                      <button className="btn" onClick={() => remove(it.key)} aria-label="Quitar">
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 // src/data/photos.ts
+// Seed y fallback local: la fuente real es la tabla `photos` (ver supabase/seed.sql)
 export const photos = [
   { public_id: "_JRG8610_k0pfqi" },
   { public_id: "_JRG8626_gbg070" },
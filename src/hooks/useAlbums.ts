@@ -0,0 +1,33 @@
+// src/hooks/useAlbums.ts
+import { useEffect, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+
+export type Album = {
+  album: string;
+  photo_count: number;
+  last_photo_at: string;
+};
+
+/** Álbumes con fotos, el más reciente primero (vista `photo_albums`). */
+export function useAlbums() {
+  const [albums, setAlbums] = useState<Album[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase
+      .from("photo_albums")
+      .select("album,photo_count,last_photo_at")
+      .order("last_photo_at", { ascending: false })
+      .then(({ data, error }) => {
+        if (cancelled || error) return;
+        setAlbums((data ?? []) as Album[]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return albums;
+}
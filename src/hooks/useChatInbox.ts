@@ -0,0 +1,190 @@
+// src/hooks/useChatInbox.ts
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+import { useAuth } from "./useAuth";
+import { useUserRestrictions } from "./useUserRestrictions";
+
+/** Fila de `messages` tal como llega por Realtime (Chat la trata como su Message). */
+export type InboxMessage = {
+  id: string;
+  sender_id: string;
+  receiver_id: string | null;
+  conversation_id: string | null;
+  body: string;
+  created_at: string;
+};
+
+export type InboxEvent = "INSERT" | "UPDATE";
+
+export type InboxListener = (event: InboxEvent, message: InboxMessage) => void;
+
+function withoutKey(prev: Map<string, number>, key: string) {
+  if (!prev.get(key)) return prev;
+  const next = new Map(prev);
+  next.delete(key);
+  return next;
+}
+
+/**
+ * Canal Realtime único del usuario para el chat: mensajes recibidos (filtro
+ * receiver_id en el servidor), los míos (otras pestañas, ediciones) y los de
+ * mis grupos. Con ellos lleva los sin leer (DMs por remitente vía dm_reads,
+ * grupos vía conversation_members.last_read_at) y los reparte a Chat con
+ * `subscribe`. Vive en App: sigue funcionando con el drawer cerrado.
+ * Los remitentes bloqueados o silenciados no suman sin leer.
+ */
+export function useChatInbox() {
+  const { user } = useAuth();
+  const me = user?.id ?? null;
+
+  const [byPeer, setByPeer] = useState<Map<string, number>>(() => new Map());
+  const [byGroup, setByGroup] = useState<Map<string, number>>(() => new Map());
+  // mis grupos (ordenados): el canal se rehace solo si cambia la membresía
+  const [groupIds, setGroupIds] = useState("");
+  const [error, setError] = useState("");
+
+  const listenersRef = useRef(new Set<InboxListener>());
+
+  const { restrictions, kindById } = useUserRestrictions();
+  const kindByIdRef = useRef(kindById);
+  kindByIdRef.current = kindById;
+
+  const reload = useCallback(async () => {
+    if (!me) return;
+
+    const [dms, groups] = await Promise.all([
+      supabase.rpc("dm_unread_counts"),
+      supabase.rpc("my_conversations").select("id,unread"),
+    ]);
+
+    const err = dms.error ?? groups.error;
+    if (err) return setError(err.message);
+
+    const rows = (groups.data ?? []) as { id: string; unread: number }[];
+
+    setError("");
+    setGroupIds(rows.map((r) => r.id).sort().join(","));
+    setByPeer(
+      new Map(((dms.data ?? []) as { peer_id: string; unread: number }[]).map((r) => [r.peer_id, Number(r.unread)]))
+    );
+    setByGroup(
+      new Map(
+        rows
+          .filter((r) => Number(r.unread) > 0)
+          .map((r) => [r.id, Number(r.unread)])
+      )
+    );
+  }, [me]);
+
+  useEffect(() => {
+    setByPeer(new Map());
+    setByGroup(new Map());
+    setGroupIds("");
+    reload();
+  }, [reload]);
+
+  // ✅ bloquear/silenciar cambia lo que cuenta el servidor: se vuelve a contar
+  const restrictionsRef = useRef(restrictions);
+  useEffect(() => {
+    if (restrictionsRef.current === restrictions) return;
+    restrictionsRef.current = restrictions;
+    reload();
+  }, [restrictions, reload]);
+
+  // ✅ un canal por usuario, filtrado en el servidor (nada de mensajes ajenos)
+  useEffect(() => {
+    if (!me) return;
+
+    const dispatch = (event: InboxEvent) => (payload: { new: unknown }) => {
+      const m = payload.new as InboxMessage;
+
+      if (event === "INSERT" && m.sender_id !== me && !kindByIdRef.current.has(m.sender_id)) {
+        if (m.conversation_id) {
+          const id = m.conversation_id;
+          setByGroup((prev) => new Map(prev).set(id, (prev.get(id) ?? 0) + 1));
+        } else {
+          setByPeer((prev) => new Map(prev).set(m.sender_id, (prev.get(m.sender_id) ?? 0) + 1));
+        }
+      }
+
+      listenersRef.current.forEach((listener) => listener(event, m));
+    };
+
+    const filters = [`receiver_id=eq.${me}`, `sender_id=eq.${me}`];
+    // los mensajes de grupo no tienen receiver_id: se filtran por mis conversaciones
+    if (groupIds) filters.push(`conversation_id=in.(${groupIds})`);
+
+    // ✅ topic propio por suscripción: el canal anterior sigue saliendo (removeChannel es
+    // asíncrono) y con el mismo topic se reutilizaría ese, que acaba cerrado
+    const channel = supabase.channel(`chat-inbox:${me}:${crypto.randomUUID()}`);
+
+    for (const filter of filters) {
+      channel
+        .on("postgres_changes", { event: "INSERT", schema: "public", table: "messages", filter }, dispatch("INSERT"))
+        .on("postgres_changes", { event: "UPDATE", schema: "public", table: "messages", filter }, dispatch("UPDATE"));
+    }
+
+    channel
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "dm_reads", filter: `user_id=eq.${me}` },
+        () => reload()
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "conversation_members", filter: `user_id=eq.${me}` },
+        () => reload()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [me, groupIds, reload]);
+
+  /** Chat se engancha aquí en lugar de abrir sus propias suscripciones a `messages`. */
+  const subscribe = useCallback((listener: InboxListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const markRead = useCallback(
+    async (peerId: string) => {
+      if (!me) return;
+
+      // ✅ optimista: el badge se apaga al abrir la conversación
+      setByPeer((prev) => withoutKey(prev, peerId));
+
+      const { error } = await supabase.rpc("mark_dm_read", { p_peer_id: peerId });
+      if (error) {
+        setError(error.message);
+        reload();
+      }
+    },
+    [me, reload]
+  );
+
+  const markGroupRead = useCallback(
+    async (conversationId: string) => {
+      if (!me) return;
+
+      setByGroup((prev) => withoutKey(prev, conversationId));
+
+      const { error } = await supabase.rpc("mark_conversation_read", { p_conversation_id: conversationId });
+      if (error) {
+        setError(error.message);
+        reload();
+      }
+    },
+    [me, reload]
+  );
+
+  const total = useMemo(
+    () => [...byPeer.values(), ...byGroup.values()].reduce((a, b) => a + b, 0),
+    [byPeer, byGroup]
+  );
+
+  return { byPeer, byGroup, total, error, markRead, markGroupRead, reload, subscribe };
+}
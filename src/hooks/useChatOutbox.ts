@@ -0,0 +1,149 @@
+// src/hooks/useChatOutbox.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+
+// "error": fallo pasajero (red, 5xx), se reintenta solo; "rejected": el servidor
+// lo rechazó (RLS, bloqueo, respuesta a un mensaje borrado…) y reenviarlo no sirve
+export type OutboxStatus = "sending" | "error" | "rejected";
+
+/** Mensaje aún no confirmado por el servidor. El `id` lo genera el cliente. */
+export type OutboxEntry = {
+  id: string;
+  sender_id: string;
+  receiver_id: string | null;
+  conversation_id: string | null;
+  reply_to_id: string | null;
+  body: string;
+  created_at: string;
+  status: OutboxStatus;
+  error?: string;
+};
+
+export type OutboxDraft = Omit<OutboxEntry, "status" | "error">;
+
+// PK duplicada: un intento anterior sí llegó al servidor
+const UNIQUE_VIOLATION = "23505";
+
+// sin respuesta (fetch caído: status 0), timeout, límite de peticiones o error del servidor
+function isTransient(status: number, code: string) {
+  if (status === 0 || status === 408 || status === 429 || status >= 500) return true;
+  // conexión, serialización/deadlock, recursos, timeout de sentencia
+  return ["08", "40", "53", "57"].some((cls) => code.startsWith(cls));
+}
+
+const storageKey = (userId: string) => `chat-outbox:${userId}`;
+
+function readStored(userId: string): OutboxEntry[] {
+  try {
+    const list = JSON.parse(localStorage.getItem(storageKey(userId)) ?? "[]");
+    return Array.isArray(list) ? (list as OutboxEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeStored(userId: string, list: OutboxEntry[]) {
+  try {
+    if (list.length === 0) localStorage.removeItem(storageKey(userId));
+    else localStorage.setItem(storageKey(userId), JSON.stringify(list));
+  } catch {
+    // sin almacenamiento (modo privado lleno): la cola sigue en memoria
+  }
+}
+
+/**
+ * Cola de salida del chat, persistida en localStorage por usuario. Cada
+ * mensaje se reintenta con el mismo `id` (idempotente): al recargar y al
+ * volver la conexión se reenvía lo pendiente, salvo lo rechazado por el
+ * servidor: eso queda para editar o descartar.
+ */
+export function useChatOutbox(me: string | null, onSent?: (entry: OutboxEntry) => void) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  const meRef = useRef(me);
+  const inFlightRef = useRef(new Set<string>());
+  const onSentRef = useRef(onSent);
+  onSentRef.current = onSent;
+
+  // ✅ estado + almacenamiento a la vez (nunca se guarda la cola de otro usuario)
+  const commit = useCallback((fn: (prev: OutboxEntry[]) => OutboxEntry[]) => {
+    const next = fn(entriesRef.current);
+    entriesRef.current = next;
+    setEntries(next);
+    if (meRef.current) writeStored(meRef.current, next);
+  }, []);
+
+  useEffect(() => {
+    meRef.current = me;
+    const list = me ? readStored(me) : [];
+    entriesRef.current = list;
+    setEntries(list);
+  }, [me]);
+
+  const patch = useCallback(
+    (id: string, changes: Partial<OutboxEntry>) =>
+      commit((prev) => prev.map((e) => (e.id === id ? { ...e, ...changes } : e))),
+    [commit]
+  );
+
+  const attempt = useCallback(
+    async (id: string) => {
+      const entry = entriesRef.current.find((e) => e.id === id);
+      if (!entry || inFlightRef.current.has(id)) return;
+
+      if (!navigator.onLine) {
+        patch(id, { status: "error", error: "Sin conexión: se reenviará al volver" });
+        return;
+      }
+
+      inFlightRef.current.add(id);
+      patch(id, { status: "sending", error: undefined });
+
+      const { error, status } = await supabase.from("messages").insert({
+        id: entry.id,
+        sender_id: entry.sender_id,
+        receiver_id: entry.receiver_id,
+        conversation_id: entry.conversation_id,
+        reply_to_id: entry.reply_to_id,
+        body: entry.body,
+      });
+
+      inFlightRef.current.delete(id);
+
+      if (error && error.code !== UNIQUE_VIOLATION) {
+        patch(id, { status: isTransient(status, error.code ?? "") ? "error" : "rejected", error: error.message });
+        return;
+      }
+
+      commit((prev) => prev.filter((e) => e.id !== id));
+      onSentRef.current?.(entry);
+    },
+    [commit, patch]
+  );
+
+  // ✅ pendientes de la sesión anterior + reintento automático al volver la conexión
+  useEffect(() => {
+    if (!me) return;
+
+    // en orden, para que lleguen como se escribieron
+    const retryAll = async () => {
+      for (const e of [...entriesRef.current]) if (e.status !== "rejected") await attempt(e.id);
+    };
+
+    if (navigator.onLine) retryAll();
+    window.addEventListener("online", retryAll);
+    return () => window.removeEventListener("online", retryAll);
+  }, [me, attempt]);
+
+  const enqueue = useCallback(
+    (draft: OutboxDraft) => {
+      commit((prev) => [...prev, { ...draft, status: "sending" }]);
+      attempt(draft.id);
+    },
+    [commit, attempt]
+  );
+
+  const discard = useCallback((id: string) => commit((prev) => prev.filter((e) => e.id !== id)), [commit]);
+
+  return { entries, enqueue, retry: attempt, discard };
+}
@@ -0,0 +1,57 @@
+// src/hooks/useCommentCounts.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+
+/**
+ * Número de comentarios por foto (public_id → total), desde la vista
+ * `photo_comment_counts`. Solo se piden las fotos cargadas (`photoIds`, que
+ * crece página a página): la vista entera se cortaría en el max-rows de
+ * PostgREST. `setCount` permite que el panel de comentarios publique el
+ * total exacto después de cargar, comentar o eliminar.
+ */
+export function useCommentCounts(photoIds: string[]) {
+  const [counts, setCounts] = useState<Map<string, number>>(() => new Map());
+  const [error, setError] = useState("");
+
+  // ✅ ids ya pedidos: cada página nueva consulta solo lo que falta
+  const requestedRef = useRef(new Set<string>());
+
+  const load = useCallback(async (ids: string[]) => {
+    ids.forEach((id) => requestedRef.current.add(id));
+    setError("");
+
+    const { data, error } = await supabase
+      .from("photo_comment_counts")
+      .select("photo_id,comment_count")
+      .in("photo_id", ids);
+
+    if (error) {
+      ids.forEach((id) => requestedRef.current.delete(id));
+      return setError(error.message);
+    }
+
+    setCounts((prev) => {
+      const next = new Map(prev);
+      for (const r of (data ?? []) as { photo_id: string; comment_count: number }[]) {
+        next.set(r.photo_id, r.comment_count);
+      }
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    const missing = photoIds.filter((id) => !requestedRef.current.has(id));
+    if (missing.length > 0) load(missing);
+  }, [photoIds, load]);
+
+  const setCount = useCallback((photoId: string, count: number) => {
+    setCounts((prev) => {
+      if ((prev.get(photoId) ?? 0) === count) return prev;
+      const next = new Map(prev);
+      next.set(photoId, count);
+      return next;
+    });
+  }, []);
+
+  return { counts, error, setCount };
+}
@@ -0,0 +1,186 @@
+// src/hooks/useGroupChats.ts
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+import { useAuth } from "./useAuth";
+
+export type GroupRole = "admin" | "member";
+
+export type GroupLastMessage = { id: string; sender_id: string; body: string; created_at: string };
+
+/** Grupo o canal general del que soy miembro (fila de my_conversations). */
+export type GroupChat = {
+  id: string;
+  kind: "group" | "channel";
+  name: string;
+  role: GroupRole;
+  member_count: number;
+  last: GroupLastMessage | null;
+  /** último mensaje o, sin mensajes, creación del grupo (orden de la bandeja) */
+  last_at: string;
+};
+
+export type GroupMember = { user_id: string; role: GroupRole; joined_at: string };
+
+type Row = {
+  id: string;
+  kind: "group" | "channel";
+  name: string;
+  role: GroupRole;
+  member_count: number;
+  last_message_id: string | null;
+  last_sender_id: string | null;
+  last_body: string | null;
+  last_at: string;
+};
+
+function fromRow(r: Row): GroupChat {
+  return {
+    id: r.id,
+    kind: r.kind,
+    name: r.name,
+    role: r.role,
+    member_count: Number(r.member_count),
+    last:
+      r.last_message_id && r.last_sender_id
+        ? { id: r.last_message_id, sender_id: r.last_sender_id, body: r.last_body ?? "", created_at: r.last_at }
+        : null,
+    last_at: r.last_at,
+  };
+}
+
+/**
+ * Mis grupos (+ canal general) y su gestión. Las reglas (solo admins
+ * gestionan miembros, a un grupo no se entra solo, del canal no se sale)
+ * las aplica el servidor.
+ */
+export function useGroupChats() {
+  const { user } = useAuth();
+  const me = user?.id ?? null;
+
+  const [groups, setGroups] = useState<GroupChat[]>([]);
+  const [error, setError] = useState("");
+
+  const reload = useCallback(async () => {
+    if (!me) return;
+
+    const { data, error } = await supabase.rpc("my_conversations");
+    if (error) return setError(error.message);
+
+    setGroups(((data ?? []) as Row[]).map(fromRow));
+  }, [me]);
+
+  useEffect(() => {
+    setGroups([]);
+    setError("");
+    reload();
+  }, [reload]);
+
+  // ✅ me añaden/quitan de un grupo (o salgo desde otra pestaña)
+  useEffect(() => {
+    if (!me) return;
+
+    const channel = supabase
+      .channel(`groups:${me}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "conversation_members", filter: `user_id=eq.${me}` },
+        () => reload()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [me, reload]);
+
+  /** nuevo mensaje en un grupo → último mensaje de la bandeja */
+  const touchGroup = useCallback((groupId: string, m: GroupLastMessage) => {
+    setGroups((prev) =>
+      prev.map((g) =>
+        g.id === groupId && new Date(m.created_at).getTime() >= new Date(g.last_at).getTime()
+          ? { ...g, last: m, last_at: m.created_at }
+          : g
+      )
+    );
+  }, []);
+
+  const createGroup = useCallback(
+    async (name: string, memberIds: string[]) => {
+      setError("");
+
+      const { data, error } = await supabase.rpc("create_group", { p_name: name, p_member_ids: memberIds });
+      if (error) {
+        setError(error.message);
+        return null;
+      }
+
+      await reload();
+      return data as string;
+    },
+    [reload]
+  );
+
+  // acciones que solo cambian membresía: RPC + recarga
+  const run = useCallback(
+    async (fn: string, args: Record<string, unknown>) => {
+      setError("");
+
+      const { error } = await supabase.rpc(fn, args);
+      if (error) {
+        setError(error.message);
+        return false;
+      }
+
+      await reload();
+      return true;
+    },
+    [reload]
+  );
+
+  const leave = useCallback((groupId: string) => run("leave_conversation", { p_conversation_id: groupId }), [run]);
+
+  const addMember = useCallback(
+    (groupId: string, userId: string) =>
+      run("add_conversation_member", { p_conversation_id: groupId, p_user_id: userId }),
+    [run]
+  );
+
+  const removeMember = useCallback(
+    (groupId: string, userId: string) =>
+      run("remove_conversation_member", { p_conversation_id: groupId, p_user_id: userId }),
+    [run]
+  );
+
+  const setRole = useCallback(
+    (groupId: string, userId: string, role: GroupRole) =>
+      run("set_conversation_role", { p_conversation_id: groupId, p_user_id: userId, p_role: role }),
+    [run]
+  );
+
+  const loadMembers = useCallback(async (groupId: string) => {
+    const { data, error } = await supabase
+      .from("conversation_members")
+      .select("user_id,role,joined_at")
+      .eq("conversation_id", groupId)
+      .order("joined_at", { ascending: true });
+
+    if (error) {
+      setError(error.message);
+      return [];
+    }
+    return (data ?? []) as GroupMember[];
+  }, []);
+
+  return {
+    groups,
+    error,
+    reload,
+    touchGroup,
+    createGroup,
+    leave,
+    addMember,
+    removeMember,
+    setRole,
+    loadMembers,
+  };
+}
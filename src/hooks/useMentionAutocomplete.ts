@@ -0,0 +1,110 @@
+// src/hooks/useMentionAutocomplete.ts
+import { useMemo, useRef, useState } from "react";
+import { activeMentionQuery, encodeMentions, shiftMentionRanges, type MentionRange } from "../lib/mentions";
+import type { Profile } from "./useProfiles";
+
+type Field = HTMLInputElement | HTMLTextAreaElement;
+
+type Options = {
+  value: string;
+  onChange: (value: string) => void;
+  profiles: Profile[];
+  /** normalmente yo: no tiene sentido mencionarse */
+  excludeId?: string | null;
+};
+
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * Autocompletado de `@alias` para un input o textarea controlado. Recuerda
+ * dónde se eligió cada perfil (rangos que siguen a las ediciones) para
+ * convertir solo esos `@Alias` en `<@uuid>` al enviar.
+ */
+export function useMentionAutocomplete<T extends Field>({ value, onChange, profiles, excludeId }: Options) {
+  const inputRef = useRef<T | null>(null);
+  const [ranges, setRanges] = useState<MentionRange[]>([]);
+  const [query, setQuery] = useState<{ start: number; query: string } | null>(null);
+  const [active, setActive] = useState(0);
+
+  const suggestions = useMemo(() => {
+    if (!query) return [];
+    const q = query.query.toLowerCase();
+
+    // sin alias no hay texto estable que convertir en token
+    return profiles
+      .filter((p) => p.id !== excludeId && p.display_name?.toLowerCase().includes(q))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [profiles, excludeId, query]);
+
+  const track = (el: Field) => {
+    const next = activeMentionQuery(el.value, el.selectionStart ?? el.value.length);
+    if (next?.start === query?.start && next?.query === query?.query) return;
+    setQuery(next);
+    setActive(0);
+  };
+
+  const pick = (p: Profile) => {
+    if (!query || !p.display_name) return;
+
+    const el = inputRef.current;
+    const caret = el?.selectionStart ?? value.length;
+    const name = p.display_name;
+    const insert = `@${name} `;
+
+    const next = value.slice(0, query.start) + insert + value.slice(caret);
+    onChange(next);
+    setRanges((prev) => [...shiftMentionRanges(prev, value, next), { id: p.id, name, start: query.start }]);
+    setQuery(null);
+
+    // ✅ cursor justo después de la mención insertada
+    const pos = query.start + insert.length;
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(pos, pos);
+    });
+  };
+
+  /** true si la tecla la consumió la lista de sugerencias */
+  const handleKeyDown = (e: React.KeyboardEvent<T>) => {
+    if (suggestions.length === 0) return false;
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((i) => (i + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      pick(suggestions[Math.min(active, suggestions.length - 1)]);
+    } else if (e.key === "Escape") {
+      // no cerrar el drawer/modal, solo la lista
+      e.stopPropagation();
+      setQuery(null);
+    } else {
+      return false;
+    }
+
+    e.preventDefault();
+    return true;
+  };
+
+  return {
+    inputRef,
+    suggestions,
+    active,
+    pick,
+    handleKeyDown,
+    handleChange: (e: React.ChangeEvent<T>) => {
+      const next = e.target.value;
+      setRanges((prev) => shiftMentionRanges(prev, value, next));
+      onChange(next);
+      track(e.target);
+    },
+    handleClick: (e: React.MouseEvent<T>) => track(e.currentTarget),
+    handleBlur: () => setQuery(null),
+    /** texto del input → cuerpo a guardar */
+    encode: (text: string) => encodeMentions(text, ranges),
+    /** al vaciar el input o cargar un texto ya guardado (edición, rangos de decodeMentions) */
+    reset: (next: MentionRange[] = []) => {
+      setRanges(next);
+      setQuery(null);
+    },
+  };
+}
@@ -0,0 +1,77 @@
+// src/hooks/useMessageSearch.ts
+import { useEffect, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+import { useAuth } from "./useAuth";
+
+/** Fila de search_messages: el fragmento marca las coincidencias con \u0001…\u0002. */
+export type MessageSearchHit = {
+  id: string;
+  sender_id: string;
+  receiver_id: string | null;
+  conversation_id: string | null;
+  created_at: string;
+  snippet: string;
+};
+
+export type HighlightSegment = { text: string; hit: boolean };
+
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_MIN_CHARS = 2;
+
+// mismos marcadores que ts_headline en la migración
+const HIT_RE = /\u0001([^\u0002]*)\u0002/g;
+
+export function splitHighlight(snippet: string): HighlightSegment[] {
+  const out: HighlightSegment[] = [];
+  let last = 0;
+
+  for (const m of snippet.matchAll(HIT_RE)) {
+    const at = m.index ?? 0;
+    if (at > last) out.push({ text: snippet.slice(last, at), hit: false });
+    out.push({ text: m[1], hit: true });
+    last = at + m[0].length;
+  }
+
+  if (last < snippet.length) out.push({ text: snippet.slice(last), hit: false });
+  return out;
+}
+
+/** Búsqueda de texto completo en mis mensajes (todas las conversaciones), con debounce. */
+export function useMessageSearch(query: string) {
+  const { user } = useAuth();
+  const me = user?.id ?? null;
+
+  const [results, setResults] = useState<MessageSearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const q = query.trim();
+    setError("");
+
+    if (!me || q.length < SEARCH_MIN_CHARS) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+
+    const timer = window.setTimeout(async () => {
+      const { data, error } = await supabase.rpc("search_messages", { p_query: q });
+      if (cancelled) return;
+
+      setSearching(false);
+      if (error) return setError(error.message);
+      setResults((data ?? []) as MessageSearchHit[]);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [me, query]);
+
+  return { results, searching, error };
+}
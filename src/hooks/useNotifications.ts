@@ -0,0 +1,181 @@
+// src/hooks/useNotifications.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+import { useAuth } from "./useAuth";
+
+export type NotificationKind = "mention" | "reply" | "message";
+
+export type AppNotification = {
+  id: string;
+  kind: NotificationKind;
+  actor_id: string | null;
+  photo_id: string | null;
+  comment_id: string | null;
+  message_id: string | null;
+  peer_id: string | null;
+  conversation_id: string | null;
+  snippet: string | null;
+  read_at: string | null;
+  created_at: string;
+};
+
+const NOTIFICATION_COLUMNS =
+  "id,kind,actor_id,photo_id,comment_id,message_id,peer_id,conversation_id,snippet,read_at,created_at";
+
+export const NOTIFICATIONS_PAGE_SIZE = 30;
+
+// ráfaga de UPDATEs (p. ej. "marcar todas") → un solo recuento
+const UNREAD_RECOUNT_DELAY_MS = 300;
+
+/**
+ * Mis notificaciones (las últimas N) + total sin leer. Las nuevas llegan por
+ * Realtime; las marcas de leído de otras pestañas también (UPDATE).
+ */
+export function useNotifications() {
+  const { user } = useAuth();
+  const me = user?.id ?? null;
+
+  const [items, setItems] = useState<AppNotification[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  // el total puede superar lo cargado: se cuenta aparte
+  const loadUnread = useCallback(async () => {
+    if (!me) return;
+
+    const { count, error } = await supabase
+      .from("notifications")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", me)
+      .is("read_at", null);
+
+    if (error) return setError(error.message);
+    setUnread(count ?? 0);
+  }, [me]);
+
+  const recountTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scheduleUnread = useCallback(() => {
+    if (recountTimerRef.current) clearTimeout(recountTimerRef.current);
+    recountTimerRef.current = setTimeout(() => {
+      recountTimerRef.current = null;
+      loadUnread();
+    }, UNREAD_RECOUNT_DELAY_MS);
+  }, [loadUnread]);
+
+  useEffect(
+    () => () => {
+      if (recountTimerRef.current) clearTimeout(recountTimerRef.current);
+    },
+    []
+  );
+
+  useEffect(() => {
+    setItems([]);
+    setUnread(0);
+    setError("");
+    if (!me) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    supabase
+      .from("notifications")
+      .select(NOTIFICATION_COLUMNS)
+      .eq("user_id", me)
+      .order("created_at", { ascending: false })
+      .limit(NOTIFICATIONS_PAGE_SIZE)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        setLoading(false);
+        if (error) return setError(error.message);
+        setItems((data ?? []) as AppNotification[]);
+      });
+
+    loadUnread();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [me, loadUnread]);
+
+  // ✅ realtime: solo mis filas
+  useEffect(() => {
+    if (!me) return;
+
+    const channel = supabase
+      .channel(`notifications:${me}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "notifications", filter: `user_id=eq.${me}` },
+        (payload) => {
+          const n = payload.new as AppNotification;
+          setItems((prev) =>
+            prev.some((x) => x.id === n.id) ? prev : [n, ...prev].slice(0, NOTIFICATIONS_PAGE_SIZE)
+          );
+          if (!n.read_at) setUnread((u) => u + 1);
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "notifications", filter: `user_id=eq.${me}` },
+        (payload) => {
+          const n = payload.new as AppNotification;
+          setItems((prev) => prev.map((x) => (x.id === n.id ? { ...x, ...n } : x)));
+          // old solo trae la PK: se vuelve a contar (una vez por ráfaga)
+          scheduleUnread();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [me, scheduleUnread]);
+
+  const markRead = useCallback(
+    async (id: string) => {
+      if (!me) return;
+
+      const target = items.find((n) => n.id === id);
+      if (target?.read_at) return;
+
+      const now = new Date().toISOString();
+      // ✅ optimista
+      setItems((prev) => prev.map((n) => (n.id === id ? { ...n, read_at: now } : n)));
+      setUnread((u) => Math.max(0, u - 1));
+
+      const { error } = await supabase.from("notifications").update({ read_at: now }).eq("id", id);
+      if (error) {
+        setError(error.message);
+        setItems((prev) => prev.map((n) => (n.id === id ? { ...n, read_at: null } : n)));
+        loadUnread();
+      }
+    },
+    [me, items, loadUnread]
+  );
+
+  const markAllRead = useCallback(async () => {
+    if (!me) return;
+
+    const now = new Date().toISOString();
+    const before = items;
+    setItems((prev) => prev.map((n) => (n.read_at ? n : { ...n, read_at: now })));
+    setUnread(0);
+
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: now })
+      .eq("user_id", me)
+      .is("read_at", null);
+
+    if (error) {
+      setError(error.message);
+      setItems(before);
+    }
+    // ✅ un update para todas + un recuento (se funde con los UPDATE de Realtime)
+    scheduleUnread();
+  }, [me, items, scheduleUnread]);
+
+  return { items, unread, loading, error, markRead, markAllRead };
+}
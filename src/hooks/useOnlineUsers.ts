@@ -0,0 +1,51 @@
+// src/hooks/useOnlineUsers.ts
+import { useEffect, useState } from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "../lib/supabaseClient";
+import { useAuth } from "./useAuth";
+import { usePageVisible } from "./usePageVisible";
+
+// presence exige el mismo topic para todos: volver a entrar solo cuando terminó
+// la salida anterior (si no, supabase.channel() devuelve el canal que se está yendo)
+let leaving: Promise<unknown> = Promise.resolve();
+
+/**
+ * Miembros con la app abierta (Realtime presence en un canal común). Con la
+ * pestaña oculta se deja de anunciar, así "en línea" no queda colgado.
+ */
+export function useOnlineUsers() {
+  const { user } = useAuth();
+  const me = user?.id ?? null;
+  const visible = usePageVisible();
+
+  const [online, setOnline] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    setOnline(new Set());
+    if (!me || !visible) return;
+
+    let cancelled = false;
+    let channel: RealtimeChannel | null = null;
+
+    leaving.then(() => {
+      if (cancelled) return;
+
+      const ch = supabase.channel("online", { config: { presence: { key: me } } });
+      channel = ch;
+
+      ch.on("presence", { event: "sync" }, () => {
+        setOnline(new Set(Object.keys(ch.presenceState())));
+      }).subscribe((status) => {
+        if (status === "SUBSCRIBED") ch.track({ online_at: new Date().toISOString() });
+      });
+    });
+
+    // ✅ al ocultar la pestaña o cerrar sesión: salir del canal (untrack implícito)
+    return () => {
+      cancelled = true;
+      if (channel) leaving = supabase.removeChannel(channel);
+    };
+  }, [me, visible]);
+
+  return online;
+}
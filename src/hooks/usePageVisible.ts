@@ -0,0 +1,14 @@
+// src/hooks/usePageVisible.ts
+import { useSyncExternalStore } from "react";
+
+function subscribe(onChange: () => void) {
+  document.addEventListener("visibilitychange", onChange);
+  return () => document.removeEventListener("visibilitychange", onChange);
+}
+
+const getVisible = () => document.visibilityState === "visible";
+
+/** false mientras la pestaña está oculta (otra pestaña, ventana minimizada). */
+export function usePageVisible() {
+  return useSyncExternalStore(subscribe, getVisible);
+}
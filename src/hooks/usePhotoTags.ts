@@ -0,0 +1,89 @@
+// src/hooks/usePhotoTags.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+import { useAuth } from "./useAuth";
+
+export type PhotoTag = {
+  id: string;
+  photo_id: string;
+  tagged_user_id: string;
+  tagged_by: string;
+  x: number;
+  y: number;
+  created_at: string;
+};
+
+/** Etiquetas de personas de una foto (se recargan al cambiar de foto). */
+export function usePhotoTags(photoId: string | null) {
+  const { user } = useAuth();
+
+  const [tags, setTags] = useState<PhotoTag[]>([]);
+  const [error, setError] = useState("");
+
+  // ✅ anti-race: ignorar respuestas de una foto anterior
+  const loadReqRef = useRef(0);
+
+  const load = useCallback(async () => {
+    const reqId = ++loadReqRef.current;
+    setError("");
+
+    if (!photoId) {
+      setTags([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("photo_tags")
+      .select("id,photo_id,tagged_user_id,tagged_by,x,y,created_at")
+      .eq("photo_id", photoId)
+      .order("created_at", { ascending: true });
+
+    if (reqId !== loadReqRef.current) return;
+    if (error) return setError(error.message);
+    setTags((data ?? []) as PhotoTag[]);
+  }, [photoId]);
+
+  useEffect(() => {
+    setTags([]);
+    load();
+  }, [load]);
+
+  const addTag = useCallback(
+    async (taggedUserId: string, x: number, y: number) => {
+      setError("");
+      if (!user || !photoId) return setError("Inicia sesión para etiquetar.");
+      if (tags.some((t) => t.tagged_user_id === taggedUserId)) {
+        return setError("Esa persona ya está etiquetada en esta foto.");
+      }
+
+      const { data, error } = await supabase
+        .from("photo_tags")
+        .insert({ photo_id: photoId, tagged_user_id: taggedUserId, tagged_by: user.id, x, y })
+        .select("id,photo_id,tagged_user_id,tagged_by,x,y,created_at")
+        .single();
+
+      if (error) return setError(error.message);
+      setTags((prev) => [...prev, data as PhotoTag]);
+    },
+    [user, photoId, tags]
+  );
+
+  const removeTag = useCallback(async (id: string) => {
+    setError("");
+
+    // ✅ la RLS no da error si no me toca: 0 filas borradas = no se pudo
+    const { data, error } = await supabase.from("photo_tags").delete().eq("id", id).select("id");
+    if (error) return setError(error.message);
+    if (!data?.length) return setError("No puedes quitar esta etiqueta.");
+
+    setTags((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  /** solo la persona etiquetada o quien puso la etiqueta (igual que la RLS) */
+  const canRemove = useCallback(
+    (t: PhotoTag) => !!user && (t.tagged_user_id === user.id || t.tagged_by === user.id),
+    [user]
+  );
+
+  return { tags, error, addTag, removeTag, canRemove };
+}
@@ -0,0 +1,206 @@
+// src/hooks/usePhotos.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+import { photos as seedPhotos } from "../data/photos";
+
+export type Photo = {
+  id: string;
+  public_id: string;
+  album: string;
+  caption: string | null;
+  taken_at: string | null;
+  width: number | null;
+  height: number | null;
+  uploaded_by: string | null;
+  created_at: string;
+};
+
+export const PHOTO_COLUMNS =
+  "id,public_id,album,caption,taken_at,width,height,uploaded_by,created_at";
+
+// ✅ fallback local: mismas fotos del seed, más recientes primero
+function fallbackPhotos(): Photo[] {
+  return seedPhotos
+    .map((p) => ({
+      id: p.public_id,
+      public_id: p.public_id,
+      album: "festival",
+      caption: null,
+      taken_at: null,
+      width: null,
+      height: null,
+      uploaded_by: null,
+      created_at: "",
+    }))
+    .reverse();
+}
+
+export const PHOTOS_PAGE_SIZE = 60;
+
+export type PhotoOrder = "recent" | "comments" | "reactions";
+
+// fila de photo_feed / tagged_photo_feed: la foto + las claves de orden
+type FeedRow = Photo & { comment_count: number; reaction_count: number };
+const FEED_COLUMNS = `${PHOTO_COLUMNS},comment_count,reaction_count`;
+
+// ✅ keyset (clave de orden, created_at, id) desde la última foto cargada: las
+// subidas y los conteos que cambian no duplican ni saltan fotos entre páginas
+function afterCursor(last: FeedRow, order: PhotoOrder) {
+  const at = `created_at.lt."${last.created_at}",and(created_at.eq."${last.created_at}",id.lt.${last.id})`;
+  if (order === "recent") return at;
+
+  const key = order === "comments" ? "comment_count" : "reaction_count";
+  return `${key}.lt.${last[key]},and(${key}.eq.${last[key]},or(${at}))`;
+}
+
+/**
+ * Fotos del álbum desde la vista `photo_feed`, paginadas de a PHOTOS_PAGE_SIZE
+ * con cursor (keyset).
+ * "recent": más recientes primero; "comments" / "reactions": por número de
+ * comentarios o de reacciones (desempate por recientes). Si la primera página falla se muestra el listado
+ * local y se expone el error.
+ */
+export function usePhotos({
+  album = null,
+  tagged = null,
+  order = "recent",
+}: {
+  album?: string | null;
+  /** solo fotos donde está etiquetado este usuario (vista `tagged_photo_feed`) */
+  tagged?: string | null;
+  order?: PhotoOrder;
+} = {}) {
+  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState("");
+
+  // ✅ anti-race: solo la última consulta puede escribir estado
+  const loadReqRef = useRef(0);
+  const cursorRef = useRef<FeedRow | null>(null);
+  const hasMoreRef = useRef(false);
+  const moreBusyRef = useRef(false);
+
+  const fetchPage = useCallback(
+    (cursor: FeedRow | null) => {
+      let query = supabase.from(tagged ? "tagged_photo_feed" : "photo_feed").select(FEED_COLUMNS);
+
+      if (album) query = query.eq("album", album);
+      if (tagged) query = query.eq("tagged_user_id", tagged);
+      if (cursor) query = query.or(afterCursor(cursor, order));
+      if (order === "comments") query = query.order("comment_count", { ascending: false });
+      if (order === "reactions") query = query.order("reaction_count", { ascending: false });
+
+      return query
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(PHOTOS_PAGE_SIZE);
+    },
+    [album, tagged, order]
+  );
+
+  const commitPage = (rows: FeedRow[], append: boolean) => {
+    cursorRef.current = rows[rows.length - 1] ?? (append ? cursorRef.current : null);
+    hasMoreRef.current = rows.length === PHOTOS_PAGE_SIZE;
+    setHasMore(hasMoreRef.current);
+
+    setPhotos((prev) => {
+      if (!append) return rows;
+      // ✅ sin duplicados si el orden se movió entre páginas (subidas, comentarios)
+      const seen = new Set(prev.map((p) => p.public_id));
+      return [...prev, ...rows.filter((p) => !seen.has(p.public_id))];
+    });
+  };
+
+  const load = useCallback(async () => {
+    const reqId = ++loadReqRef.current;
+    moreBusyRef.current = false;
+    setLoading(true);
+    setLoadingMore(false);
+    setError("");
+
+    const { data, error } = await fetchPage(null);
+    if (reqId !== loadReqRef.current) return;
+
+    if (error) {
+      setError(error.message);
+      hasMoreRef.current = false;
+      cursorRef.current = null;
+      setHasMore(false);
+      setPhotos(tagged ? [] : fallbackPhotos().filter((p) => !album || p.album === album));
+    } else {
+      commitPage((data ?? []) as FeedRow[], false);
+    }
+
+    setLoading(false);
+  }, [fetchPage, album, tagged]);
+
+  const loadMore = useCallback(async () => {
+    if (moreBusyRef.current || !hasMoreRef.current) return;
+
+    const reqId = loadReqRef.current;
+    moreBusyRef.current = true;
+    setLoadingMore(true);
+
+    const { data, error } = await fetchPage(cursorRef.current);
+    if (reqId !== loadReqRef.current) return;
+
+    if (error) setError(error.message);
+    else commitPage((data ?? []) as FeedRow[], true);
+
+    moreBusyRef.current = false;
+    setLoadingMore(false);
+  }, [fetchPage]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  /**
+   * Inserta una foto recién subida sin recargar las páginas ya cargadas (el
+   * cursor no cambia: es más nueva que todo lo cargado). En los órdenes por
+   * conteo llegará en su página (sin actividad), así que no se toca.
+   */
+  const addPhoto = useCallback(
+    (photo: Photo) => {
+      if (order !== "recent" || tagged || (album && photo.album !== album)) return;
+      setPhotos((prev) => {
+        if (prev.some((p) => p.public_id === photo.public_id)) return prev;
+        return [photo, ...prev];
+      });
+    },
+    [album, tagged, order]
+  );
+
+  return { photos, loading, loadingMore, hasMore, error, reload: load, loadMore, addPhoto };
+}
+
+/** Registra en `photos` una imagen ya subida a Cloudinary. */
+export async function registerPhoto(input: {
+  public_id: string;
+  width: number | null;
+  height: number | null;
+  uploaded_by: string;
+  album?: string;
+  caption?: string | null;
+}): Promise<Photo> {
+  const { data, error } = await supabase
+    .from("photos")
+    .upsert(
+      {
+        public_id: input.public_id,
+        width: input.width,
+        height: input.height,
+        uploaded_by: input.uploaded_by,
+        album: input.album ?? "festival",
+        caption: input.caption ?? null,
+      },
+      { onConflict: "public_id" }
+    )
+    .select(PHOTO_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data as Photo;
+}
@@ -0,0 +1,68 @@
+// src/hooks/useProfiles.ts
+import { useMemo, useSyncExternalStore } from "react";
+import { supabase } from "../lib/supabaseClient";
+
+export type Profile = {
+  id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+};
+
+type State = { profiles: Profile[]; error: string };
+
+// ✅ store compartido: muchos consumidores (menciones, etiquetas) → una sola consulta
+let state: State = { profiles: [], error: "" };
+let loaded = false;
+let inflight: PromiseLike<void> | null = null;
+const listeners = new Set<() => void>();
+
+function emit(next: State) {
+  state = next;
+  listeners.forEach((l) => l());
+}
+
+/** Vuelve a leer los perfiles (p. ej. tras cambiar un alias). */
+export function refreshProfiles(): PromiseLike<void> {
+  if (inflight) return inflight;
+
+  inflight = supabase
+    .from("profiles")
+    .select("id, display_name, avatar_url")
+    .order("display_name", { ascending: true, nullsFirst: false })
+    .then(({ data, error }) => {
+      inflight = null;
+      loaded = true;
+      emit(error ? { ...state, error: error.message } : { profiles: (data ?? []) as Profile[], error: "" });
+    });
+
+  return inflight;
+}
+
+function subscribe(onChange: () => void) {
+  listeners.add(onChange);
+  if (!loaded) refreshProfiles();
+  return () => {
+    listeners.delete(onChange);
+  };
+}
+
+const getState = () => state;
+
+// ✅ con RLS lo visible depende de la sesión: releer al cambiar de usuario
+let sessionUserId: string | null | undefined;
+supabase.auth.onAuthStateChange((_event, session) => {
+  const uid = session?.user?.id ?? null;
+  if (uid === sessionUserId) return;
+  const first = sessionUserId === undefined;
+  sessionUserId = uid;
+  if (loaded && !first) refreshProfiles();
+});
+
+/** Todos los miembros (orden alfabético) + índice por id. */
+export function useProfiles() {
+  const { profiles, error } = useSyncExternalStore(subscribe, getState);
+
+  const byId = useMemo(() => new Map(profiles.map((p) => [p.id, p])), [profiles]);
+
+  return { profiles, byId, error };
+}
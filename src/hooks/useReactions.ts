@@ -0,0 +1,178 @@
+// src/hooks/useReactions.ts
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+import { useAuth } from "./useAuth";
+
+// mismo set que el CHECK de photo_reactions.emoji
+export const REACTION_EMOJIS = ["❤️", "🔥", "😂", "😮", "👏"] as const;
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number];
+
+export type ReactionCounts = Partial<Record<ReactionEmoji, number>>;
+
+type ReactionRow = { photo_id: string; user_id: string; emoji: ReactionEmoji };
+
+const mineKey = (photoId: string, emoji: string) => `${photoId}:${emoji}`;
+
+function bump(prev: Map<string, ReactionCounts>, photoId: string, emoji: ReactionEmoji, delta: number) {
+  const next = new Map(prev);
+  const cur = { ...(next.get(photoId) ?? {}) };
+  cur[emoji] = Math.max(0, (cur[emoji] ?? 0) + delta);
+  next.set(photoId, cur);
+  return next;
+}
+
+/**
+ * Reacciones de las fotos cargadas (`photoIds`, que crece página a página):
+ * totales por emoji, las mías, y cambios en vivo vía Realtime. Los eventos
+ * propios se concilian contra `mine` para no contar dos veces lo que ya se
+ * aplicó de forma optimista.
+ */
+export function useReactions(photoIds: string[]) {
+  const { user } = useAuth();
+  const me = user?.id ?? null;
+
+  const [counts, setCounts] = useState<Map<string, ReactionCounts>>(() => new Map());
+  const [mine, setMine] = useState<Set<string>>(() => new Set());
+  const [error, setError] = useState("");
+
+  // ✅ copia síncrona de `mine` para conciliar eventos de Realtime
+  const mineRef = useRef<Set<string>>(new Set());
+  const commitMine = (next: Set<string>) => {
+    mineRef.current = next;
+    setMine(next);
+  };
+
+  // ✅ solo lo que falta: la vista entera se cortaría en el max-rows de PostgREST
+  const requestedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    const ids = photoIds.filter((id) => !requestedRef.current.has(id));
+    if (ids.length === 0) return;
+    ids.forEach((id) => requestedRef.current.add(id));
+
+    supabase
+      .from("photo_reaction_counts")
+      .select("photo_id,emoji,reaction_count")
+      .in("photo_id", ids)
+      .then(({ data, error }) => {
+        if (error) {
+          ids.forEach((id) => requestedRef.current.delete(id));
+          return setError(error.message);
+        }
+
+        // lo leído reemplaza lo que Realtime haya sumado antes de cargar la página
+        const fetched = new Map<string, ReactionCounts>(ids.map((id) => [id, {}]));
+        for (const r of (data ?? []) as { photo_id: string; emoji: ReactionEmoji; reaction_count: number }[]) {
+          fetched.set(r.photo_id, { ...fetched.get(r.photo_id), [r.emoji]: r.reaction_count });
+        }
+        setCounts((prev) => new Map([...prev, ...fetched]));
+      });
+  }, [photoIds]);
+
+  useEffect(() => {
+    if (!me) {
+      commitMine(new Set());
+      return;
+    }
+
+    let cancelled = false;
+
+    supabase
+      .from("photo_reactions")
+      .select("photo_id,emoji")
+      .eq("user_id", me)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) return setError(error.message);
+        commitMine(new Set((data ?? []).map((r: { photo_id: string; emoji: string }) => mineKey(r.photo_id, r.emoji))));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [me]);
+
+  // ✅ realtime: INSERT/DELETE de cualquier miembro
+  useEffect(() => {
+    const channel = supabase
+      .channel("photo_reactions")
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "photo_reactions" }, (payload) => {
+        const r = payload.new as ReactionRow;
+
+        if (r.user_id === me) {
+          const key = mineKey(r.photo_id, r.emoji);
+          // ya aplicado de forma optimista en esta pestaña
+          if (mineRef.current.has(key)) return;
+          commitMine(new Set(mineRef.current).add(key));
+        }
+
+        setCounts((prev) => bump(prev, r.photo_id, r.emoji, 1));
+      })
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "photo_reactions" }, (payload) => {
+        const r = payload.old as ReactionRow;
+
+        if (r.user_id === me) {
+          const key = mineKey(r.photo_id, r.emoji);
+          if (!mineRef.current.has(key)) return;
+          const next = new Set(mineRef.current);
+          next.delete(key);
+          commitMine(next);
+        }
+
+        setCounts((prev) => bump(prev, r.photo_id, r.emoji, -1));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [me]);
+
+  const toggle = useCallback(
+    async (photoId: string, emoji: ReactionEmoji) => {
+      setError("");
+      if (!me) return setError("Inicia sesión para reaccionar.");
+
+      const key = mineKey(photoId, emoji);
+      const active = mineRef.current.has(key);
+
+      const flip = (on: boolean) => {
+        const next = new Set(mineRef.current);
+        if (on) next.add(key);
+        else next.delete(key);
+        commitMine(next);
+      };
+
+      // ✅ optimista
+      flip(!active);
+      setCounts((prev) => bump(prev, photoId, emoji, active ? -1 : 1));
+
+      const { error } = active
+        ? await supabase
+            .from("photo_reactions")
+            .delete()
+            .match({ photo_id: photoId, user_id: me, emoji })
+        : await supabase.from("photo_reactions").insert({ photo_id: photoId, user_id: me, emoji });
+
+      if (error) {
+        setError(error.message);
+        flip(active);
+        setCounts((prev) => bump(prev, photoId, emoji, active ? 1 : -1));
+      }
+    },
+    [me]
+  );
+
+  const totals = useMemo(() => {
+    const map = new Map<string, number>();
+    for (const [photoId, byEmoji] of counts) {
+      const total = Object.values(byEmoji).reduce((a, b) => a + (b ?? 0), 0);
+      if (total > 0) map.set(photoId, total);
+    }
+    return map;
+  }, [counts]);
+
+  const hasReacted = useCallback((photoId: string, emoji: ReactionEmoji) => mine.has(mineKey(photoId, emoji)), [mine]);
+
+  return { counts, totals, hasReacted, toggle, error };
+}
@@ -0,0 +1,136 @@
+// src/hooks/useUserRestrictions.ts
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { supabase } from "../lib/supabaseClient";
+import { useAuth } from "./useAuth";
+
+export type RestrictionKind = "block" | "mute";
+
+export type UserRestriction = {
+  target_id: string;
+  kind: RestrictionKind;
+  created_at: string;
+};
+
+type State = { restrictions: UserRestriction[]; error: string };
+
+// ✅ store compartido (chat, comentarios, menú de cuenta) → una sola consulta
+let state: State = { restrictions: [], error: "" };
+let loaded = false;
+let inflight: PromiseLike<void> | null = null;
+// lecturas numeradas + escrituras en curso: solo la última lectura, sin escrituras pendientes, manda
+let readSeq = 0;
+let pendingWrites = 0;
+const listeners = new Set<() => void>();
+
+function emit(next: State) {
+  state = next;
+  listeners.forEach((l) => l());
+}
+
+function readRestrictions(): PromiseLike<void> {
+  const seq = ++readSeq;
+
+  const request: PromiseLike<void> = supabase
+    .from("user_restrictions")
+    .select("target_id, kind, created_at")
+    .order("created_at", { ascending: false })
+    .then(({ data, error }) => {
+      if (inflight === request) inflight = null;
+      // ✅ una lectura posterior o una escritura sin terminar pisarían lo optimista con datos viejos
+      if (seq !== readSeq || pendingWrites > 0) return;
+      loaded = true;
+      emit(error ? { ...state, error: error.message } : { restrictions: (data ?? []) as UserRestriction[], error: "" });
+    });
+
+  inflight = request;
+  return request;
+}
+
+/** Vuelve a leer mi lista (RLS: solo mis filas). */
+export function refreshRestrictions(): PromiseLike<void> {
+  return inflight ?? readRestrictions();
+}
+
+function subscribe(onChange: () => void) {
+  listeners.add(onChange);
+  if (!loaded) refreshRestrictions();
+  return () => {
+    listeners.delete(onChange);
+  };
+}
+
+const getState = () => state;
+
+// ✅ otras pestañas: aviso local en vez de Realtime (los DELETE de Realtime no pasan por la RLS)
+const tabs = typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel("user-restrictions");
+tabs?.addEventListener("message", () => {
+  if (loaded) readRestrictions();
+});
+
+// ✅ tras escribir, la lista final es la del servidor (y quien cuente sin leer se recalcula con ella);
+// siempre una lectura nueva: la que estuviera en curso pudo salir antes de la escritura
+async function settle(error: { message: string } | null) {
+  pendingWrites -= 1;
+  await readRestrictions();
+  if (error) emit({ ...state, error: error.message });
+  tabs?.postMessage("changed");
+}
+
+// ✅ otra sesión → otra lista
+let sessionUserId: string | null | undefined;
+supabase.auth.onAuthStateChange((_event, session) => {
+  const uid = session?.user?.id ?? null;
+  if (uid === sessionUserId) return;
+  const first = sessionUserId === undefined;
+  sessionUserId = uid;
+  if (!uid) emit({ restrictions: [], error: "" });
+  else if (loaded && !first) refreshRestrictions();
+});
+
+/**
+ * Usuarios que bloqueé o silencié. Los cambios son optimistas; el servidor
+ * aplica las reglas (DMs, comentarios, avisos) por su cuenta.
+ */
+export function useUserRestrictions() {
+  const { user } = useAuth();
+  const me = user?.id ?? null;
+  const { restrictions, error } = useSyncExternalStore(subscribe, getState);
+
+  const kindById = useMemo(
+    () => new Map<string, RestrictionKind>(restrictions.map((r) => [r.target_id, r.kind])),
+    [restrictions]
+  );
+
+  const restrict = useCallback(
+    async (targetId: string, kind: RestrictionKind) => {
+      if (!me || targetId === me) return;
+
+      const row: UserRestriction = { target_id: targetId, kind, created_at: new Date().toISOString() };
+      emit({ restrictions: [row, ...state.restrictions.filter((r) => r.target_id !== targetId)], error: "" });
+      pendingWrites += 1;
+
+      const { error } = await supabase
+        .from("user_restrictions")
+        .upsert({ user_id: me, target_id: targetId, kind }, { onConflict: "user_id,target_id" });
+
+      await settle(error);
+    },
+    [me]
+  );
+
+  const unrestrict = useCallback(
+    async (targetId: string) => {
+      if (!me) return;
+
+      emit({ restrictions: state.restrictions.filter((r) => r.target_id !== targetId), error: "" });
+      pendingWrites += 1;
+
+      const { error } = await supabase.from("user_restrictions").delete().eq("user_id", me).eq("target_id", targetId);
+
+      await settle(error);
+    },
+    [me]
+  );
+
+  return { restrictions, kindById, error, restrict, unrestrict };
+}
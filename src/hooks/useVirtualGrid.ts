@@ -0,0 +1,85 @@
+// src/hooks/useVirtualGrid.ts
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+
+type Options = {
+  count: number;
+  minColumnWidth: number;
+  gap: number;
+  /** alto / ancho de cada celda (4:3 → 0.75) */
+  aspect: number;
+  /** filas extra renderizadas arriba y abajo de la ventana */
+  overscan?: number;
+};
+
+/**
+ * Ventana de una grilla que scrollea con la página (window), no con un
+ * contenedor propio. Solo se renderizan las filas visibles + overscan.
+ */
+export function useVirtualGrid({ count, minColumnWidth, gap, aspect, overscan = 3 }: Options) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  const [width, setWidth] = useState(0);
+  const [range, setRange] = useState({ startRow: 0, endRow: 0 });
+
+  const columns = Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap)));
+  const columnWidth = width > 0 ? (width - gap * (columns - 1)) / columns : minColumnWidth;
+  const rowHeight = Math.round(columnWidth * aspect);
+  const stride = rowHeight + gap;
+  const rows = Math.ceil(count / columns);
+
+  // ✅ ancho del contenedor → columnas (como auto-fill de CSS grid)
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+
+    const ro = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  // ✅ filas visibles según el scroll de la ventana (throttle con rAF)
+  useEffect(() => {
+    let frame = 0;
+
+    const measure = () => {
+      frame = 0;
+      const el = containerRef.current;
+      if (!el) return;
+
+      const top = el.getBoundingClientRect().top + window.scrollY;
+      const viewTop = window.scrollY - top;
+      const viewBottom = viewTop + window.innerHeight;
+
+      const startRow = Math.max(0, Math.floor(viewTop / stride) - overscan);
+      const endRow = Math.min(rows, Math.ceil(viewBottom / stride) + overscan);
+
+      setRange((prev) => (prev.startRow === startRow && prev.endRow === endRow ? prev : { startRow, endRow }));
+    };
+
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(measure);
+    };
+
+    measure();
+    window.addEventListener("scroll", schedule, { passive: true });
+    window.addEventListener("resize", schedule);
+
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", schedule);
+      window.removeEventListener("resize", schedule);
+    };
+  }, [stride, rows, overscan]);
+
+  return {
+    containerRef,
+    columns,
+    rowHeight,
+    totalHeight: rows > 0 ? rows * stride - gap : 0,
+    offsetY: range.startRow * stride,
+    startIndex: range.startRow * columns,
+    endIndex: Math.min(count, range.endRow * columns),
+    /** true si la ventana llega a las últimas filas (para pedir la siguiente página) */
+    nearEnd: rows > 0 && range.endRow >= rows - 1,
+  };
+}
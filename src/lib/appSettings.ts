@@ -0,0 +1,24 @@
+// src/lib/appSettings.ts
+import { supabase } from "./supabaseClient";
+
+// ✅ una sola consulta por sesión de página: los valores casi no cambian
+let cache: Promise<Map<string, unknown>> | null = null;
+
+function loadAll() {
+  if (!cache) {
+    cache = Promise.resolve(supabase.from("app_settings").select("key,value")).then(({ data, error }) => {
+      if (error) {
+        cache = null;
+        return new Map<string, unknown>();
+      }
+      return new Map((data ?? []).map((r: { key: string; value: unknown }) => [r.key, r.value]));
+    });
+  }
+  return cache;
+}
+
+/** Valor de `app_settings` (el mismo que usan los triggers del servidor). */
+export async function getSetting<T>(key: string, fallback: T): Promise<T> {
+  const all = await loadAll();
+  return all.has(key) ? (all.get(key) as T) : fallback;
+}
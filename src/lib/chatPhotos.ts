@@ -0,0 +1,14 @@
+// src/lib/chatPhotos.ts
+// Foto compartida por chat: `messages.photo_id` guarda el public_id y `body` el
+// comentario opcional; sin comentario, un texto fijo para bandeja y notificaciones.
+
+export const PHOTO_MESSAGE_BODY = "📷 Foto";
+
+export function photoMessageBody(comment: string) {
+  return comment.trim() || PHOTO_MESSAGE_BODY;
+}
+
+/** Comentario a mostrar bajo la tarjeta (vacío si es el texto fijo). */
+export function photoMessageComment(body: string) {
+  return body === PHOTO_MESSAGE_BODY ? "" : body;
+}
@@ -1,6 +1,183 @@
 // src/lib/cloudinary.ts
-const CLOUD_NAME = "dwjrrqqta"
+// ✅ sin la variable se sigue usando la cuenta de siempre (no romper deploys existentes)
+const CLOUD_NAME = import.meta.env.VITE_CLOUDINARY_CLOUD_NAME || "dwjrrqqta"
 
-export function buildImageUrl(publicId: string, width: number) {
-  return `https://res.cloudinary.com/${CLOUD_NAME}/image/upload/f_auto,q_auto,w_${width}/${publicId}`
-}
\ No newline at end of file
+// endpoint que firma las subidas (Netlify Function en prod, middleware de Vite en dev)
+const SIGN_URL = import.meta.env.VITE_CLOUDINARY_SIGN_URL || "/api/sign-upload"
+
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024
+export const ACCEPTED_UPLOAD_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic", "image/heif"]
+
+export type CropMode = "fill" | "fit" | "limit" | "scale" | "thumb" | "pad" | "crop"
+export type Gravity =
+  | "auto"
+  | "face"
+  | "faces"
+  | "center"
+  | "north"
+  | "south"
+  | "east"
+  | "west"
+
+export type ImageTransform = {
+  width?: number
+  height?: number
+  /** p. ej. "4:3"; con crop "fill" Cloudinary calcula el alto */
+  aspectRatio?: string
+  crop?: CropMode
+  gravity?: Gravity
+  dpr?: number | "auto"
+  quality?: number | "auto" | "auto:low" | "auto:eco" | "auto:good" | "auto:best"
+  /** 1–2000 (e_blur) */
+  blur?: number
+}
+
+/** Transformación → segmento de URL, p. ej. "f_auto,q_auto,c_fill,g_auto,ar_4:3,w_480". */
+export function buildTransform(t: ImageTransform = {}) {
+  const parts = ["f_auto", `q_${t.quality ?? "auto"}`]
+
+  if (t.crop) parts.push(`c_${t.crop}`)
+  if (t.gravity) parts.push(`g_${t.gravity}`)
+  if (t.aspectRatio) parts.push(`ar_${t.aspectRatio}`)
+  if (t.width) parts.push(`w_${Math.round(t.width)}`)
+  if (t.height) parts.push(`h_${Math.round(t.height)}`)
+  if (t.dpr) parts.push(`dpr_${t.dpr === "auto" ? "auto" : t.dpr.toFixed(1)}`)
+  if (t.blur) parts.push(`e_blur:${Math.round(t.blur)}`)
+
+  return parts.join(",")
+}
+
+/** Acepta un ancho (compatibilidad) o una transformación completa. */
+export function buildImageUrl(publicId: string, transform: number | ImageTransform) {
+  const t = typeof transform === "number" ? { width: transform } : transform
+  return `https://res.cloudinary.com/${CLOUD_NAME}/image/upload/${buildTransform(t)}/${publicId}`
+}
+
+/** srcset por anchos: "…/w_320/id 320w, …/w_640/id 640w". */
+export function buildSrcSet(publicId: string, widths: number[], transform: Omit<ImageTransform, "width" | "dpr"> = {}) {
+  return widths.map((w) => `${buildImageUrl(publicId, { ...transform, width: w })} ${w}w`).join(", ")
+}
+
+/** Miniatura borrosa (~1 KB) para mostrar mientras carga la imagen real. */
+export function buildPlaceholderUrl(publicId: string, transform: Omit<ImageTransform, "width" | "dpr"> = {}) {
+  return buildImageUrl(publicId, { ...transform, width: 32, quality: "auto:low", blur: 1000 })
+}
+
+export type ImagePreset = {
+  transform: Omit<ImageTransform, "width" | "dpr">
+  widths: number[]
+  sizes: string
+}
+
+export const IMAGE_PRESETS = {
+  // tarjetas 4:3 de la galería (columnas de ~220–380px)
+  grid: {
+    transform: { crop: "fill", gravity: "auto", aspectRatio: "4:3" },
+    widths: [320, 480, 640, 900],
+    sizes: "(max-width: 520px) 100vw, (max-width: 1000px) 50vw, 300px",
+  },
+  // foto completa en PhotoModal (máx. 980px de ancho)
+  modal: {
+    transform: { crop: "limit" },
+    widths: [640, 960, 1280, 1600, 2000],
+    sizes: "(max-width: 1000px) 100vw, 980px",
+  },
+  // tarjeta de foto compartida en un mensaje del chat
+  chat: {
+    transform: { crop: "fill", gravity: "auto", aspectRatio: "4:3" },
+    widths: [240, 480],
+    sizes: "240px",
+  },
+} satisfies Record<string, ImagePreset>
+
+export type UploadSignature = {
+  cloud_name: string
+  api_key: string
+  timestamp: number
+  folder: string
+  signature: string
+}
+
+export type UploadResult = {
+  public_id: string
+  width: number
+  height: number
+  bytes: number
+  format: string
+  created_at: string
+}
+
+/** Devuelve un mensaje de error en español, o null si el archivo es válido. */
+export function validateImageFile(file: File): string | null {
+  if (!ACCEPTED_UPLOAD_TYPES.includes(file.type)) {
+    return "Formato no soportado (usa JPG, PNG, WEBP o HEIC)."
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    const mb = Math.round(MAX_UPLOAD_BYTES / (1024 * 1024))
+    return `La imagen supera el máximo de ${mb} MB.`
+  }
+  return null
+}
+
+export async function requestUploadSignature(accessToken: string): Promise<UploadSignature> {
+  const res = await fetch(SIGN_URL, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${accessToken}` },
+  })
+
+  if (!res.ok) {
+    const msg = await res.text().catch(() => "")
+    throw new Error(msg || `No se pudo firmar la subida (${res.status})`)
+  }
+
+  return (await res.json()) as UploadSignature
+}
+
+/**
+ * Sube un archivo con una firma ya emitida. Se usa XHR (no fetch) para
+ * poder reportar el progreso de subida.
+ */
+export function uploadImage(
+  file: File,
+  sig: UploadSignature,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<UploadResult> {
+  return new Promise((resolve, reject) => {
+    const form = new FormData()
+    form.append("file", file)
+    form.append("api_key", sig.api_key)
+    form.append("timestamp", String(sig.timestamp))
+    form.append("folder", sig.folder)
+    form.append("signature", sig.signature)
+
+    const xhr = new XMLHttpRequest()
+    xhr.open("POST", `https://api.cloudinary.com/v1_1/${sig.cloud_name}/image/upload`)
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total)
+    }
+
+    xhr.onload = () => {
+      let body: any = null
+      try {
+        body = JSON.parse(xhr.responseText)
+      } catch {
+        // respuesta no JSON: se reporta abajo con el status
+      }
+
+      if (xhr.status >= 200 && xhr.status < 300 && body?.public_id) {
+        onProgress?.(1)
+        resolve(body as UploadResult)
+      } else {
+        reject(new Error(body?.error?.message || `Error de subida (${xhr.status})`))
+      }
+    }
+
+    xhr.onerror = () => reject(new Error("Error de red durante la subida"))
+    xhr.onabort = () => reject(new DOMException("Subida cancelada", "AbortError"))
+
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true })
+    xhr.send(form)
+  })
+}
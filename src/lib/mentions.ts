@@ -0,0 +1,116 @@
+// src/lib/mentions.ts
+// @menciones: en la BD el cuerpo guarda `<@uuid>` (referencia estable al perfil);
+// en pantalla y en los inputs se ve `@Alias` vigente.
+
+export type MentionRef = { id: string; name: string };
+
+/** Mención elegida en el autocompletado y dónde quedó su `@Alias` en el texto. */
+export type MentionRange = MentionRef & { start: number };
+
+export type MentionSegment = { type: "text"; text: string } | { type: "mention"; userId: string };
+
+// mismo patrón que public.mentioned_user_ids() en la migración
+const TOKEN_RE = /<@([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})>/g;
+
+export function mentionToken(userId: string) {
+  return `<@${userId}>`;
+}
+
+export function splitMentions(body: string): MentionSegment[] {
+  const out: MentionSegment[] = [];
+  let last = 0;
+
+  for (const m of body.matchAll(TOKEN_RE)) {
+    const at = m.index ?? 0;
+    if (at > last) out.push({ type: "text", text: body.slice(last, at) });
+    out.push({ type: "mention", userId: m[1] });
+    last = at + m[0].length;
+  }
+
+  if (last < body.length) out.push({ type: "text", text: body.slice(last) });
+  return out;
+}
+
+export function mentionedIds(body: string) {
+  return [...new Set(Array.from(body.matchAll(TOKEN_RE), (m) => m[1]))];
+}
+
+/** Texto plano con `@Alias` (vistas previas, tooltips). */
+export function mentionsToText(body: string, nameOf: (userId: string) => string) {
+  return body.replace(TOKEN_RE, (_, id: string) => `@${nameOf(id)}`);
+}
+
+// tras `@Alias` no sigue otra letra (ni ".", "-" o "'" + letra): "@Anabel" y "@Ana.María" no son "@Ana"
+const NAME_END = /^(?![\p{L}\p{N}_]|[.'-][\p{L}\p{N}_])/u;
+
+const mentionLength = (r: MentionRef) => r.name.length + 1;
+
+/**
+ * Rangos después de editar el texto (de `prev` a `next`): los de antes del
+ * cambio se quedan, los de después se desplazan y los que tocó se descartan.
+ */
+export function shiftMentionRanges(ranges: MentionRange[], prev: string, next: string) {
+  if (prev === next || ranges.length === 0) return ranges;
+
+  const max = Math.min(prev.length, next.length);
+  let head = 0;
+  while (head < max && prev[head] === next[head]) head++;
+  let tail = 0;
+  while (tail < max - head && prev[prev.length - 1 - tail] === next[next.length - 1 - tail]) tail++;
+
+  const changedEnd = prev.length - tail;
+  const delta = next.length - prev.length;
+
+  return ranges.flatMap((r) => {
+    if (r.start + mentionLength(r) <= head) return [r];
+    if (r.start >= changedEnd) return [{ ...r, start: r.start + delta }];
+    return [];
+  });
+}
+
+/** Solo los `@Alias` en las posiciones elegidas (y todavía intactos) → tokens; lo escrito a mano queda como texto. */
+export function encodeMentions(text: string, ranges: MentionRange[]) {
+  const valid = ranges
+    .filter((r) => text.startsWith(`@${r.name}`, r.start) && NAME_END.test(text.slice(r.start + mentionLength(r))))
+    .sort((a, b) => b.start - a.start);
+
+  let out = text;
+  let limit = text.length;
+
+  // de atrás hacia delante: los reemplazos no mueven los rangos pendientes
+  for (const r of valid) {
+    const end = r.start + mentionLength(r);
+    if (end > limit) continue;
+    out = out.slice(0, r.start) + mentionToken(r.id) + out.slice(end);
+    limit = r.start;
+  }
+
+  return out;
+}
+
+/** Inverso de encodeMentions, para editar un texto ya guardado. */
+export function decodeMentions(body: string, nameOf: (userId: string) => string) {
+  const ranges: MentionRange[] = [];
+  let text = "";
+  let last = 0;
+
+  for (const m of body.matchAll(TOKEN_RE)) {
+    const at = m.index ?? 0;
+    const name = nameOf(m[1]);
+    text += body.slice(last, at);
+    ranges.push({ id: m[1], name, start: text.length });
+    text += `@${name}`;
+    last = at + m[0].length;
+  }
+
+  return { text: text + body.slice(last), refs: ranges };
+}
+
+/** `@consulta` que se está escribiendo justo antes del cursor, si la hay. */
+export function activeMentionQuery(text: string, caret: number) {
+  const before = text.slice(0, caret);
+  const m = /(^|\s)@([^\s@]{0,30})$/.exec(before);
+  if (!m) return null;
+
+  return { start: caret - m[2].length - 1, query: m[2] };
+}
@@ -0,0 +1,130 @@
+// src/lib/router.ts
+// Router mínimo sobre History API (sin dependencias): rutas profundas para fotos, álbumes, personas y chat.
+import { useSyncExternalStore } from "react";
+
+/** Qué fotos muestra la galería: un álbum o las fotos donde está etiquetada una persona. */
+export type GalleryScope = { album: string | null; tagged: string | null };
+
+export const ALL_PHOTOS: GalleryScope = { album: null, tagged: null };
+
+export type Route =
+  | ({ name: "home" } & GalleryScope)
+  | ({ name: "photo"; publicId: string } & GalleryScope)
+  | { name: "chat"; album: null; tagged: null; userId: string | null; groupId: string | null };
+
+const NAV_EVENT = "app:navigate";
+
+// ✅ el scroll lo maneja la app (galería virtual + modales), no el navegador al volver atrás
+if ("scrollRestoration" in window.history) window.history.scrollRestoration = "manual";
+
+const seg = (s: string) => encodeURIComponent(s);
+
+function scopePrefix(scope: GalleryScope) {
+  if (scope.tagged) return `/tagged/${seg(scope.tagged)}`;
+  if (scope.album) return `/album/${seg(scope.album)}`;
+  return "";
+}
+
+export function scopePath(scope: GalleryScope) {
+  return scopePrefix(scope) || "/";
+}
+
+export function albumPath(album: string | null) {
+  return scopePath({ album, tagged: null });
+}
+
+export function taggedPath(userId: string) {
+  return scopePath({ album: null, tagged: userId });
+}
+
+export function photoPath(publicId: string, scope: GalleryScope = ALL_PHOTOS) {
+  return `${scopePrefix(scope)}/photo/${seg(publicId)}`;
+}
+
+/** Foto con un comentario concreto resaltado (`#comment-<id>`). */
+export function commentPath(publicId: string, commentId: string, scope: GalleryScope = ALL_PHOTOS) {
+  return `${photoPath(publicId, scope)}#comment-${commentId}`;
+}
+
+export function chatPath(userId: string | null = null) {
+  return userId ? `/chat/${seg(userId)}` : "/chat";
+}
+
+export function groupChatPath(groupId: string) {
+  return `/chat/group/${seg(groupId)}`;
+}
+
+export function parseRoute(pathname: string): Route {
+  const parts = pathname
+    .split("/")
+    .filter(Boolean)
+    .map((p) => {
+      try {
+        return decodeURIComponent(p);
+      } catch {
+        return p;
+      }
+    });
+
+  const scope: GalleryScope = { album: null, tagged: null };
+  if (parts[0] === "album" && parts[1]) {
+    scope.album = parts[1];
+    parts.splice(0, 2);
+  } else if (parts[0] === "tagged" && parts[1]) {
+    scope.tagged = parts[1];
+    parts.splice(0, 2);
+  }
+
+  const scoped = !!(scope.album || scope.tagged);
+
+  if (parts[0] === "photo" && parts[1]) return { name: "photo", publicId: parts[1], ...scope };
+  if (!scoped && parts[0] === "chat") {
+    const groupId = parts[1] === "group" ? parts[2] ?? null : null;
+    const userId = parts[1] === "group" ? null : parts[1] ?? null;
+    return { name: "chat", album: null, tagged: null, userId, groupId };
+  }
+
+  return { name: "home", ...scope };
+}
+
+/**
+ * Navega dentro de la SPA. Las entradas creadas aquí se marcan con `inApp`
+ * para que "cerrar" pueda volver atrás en vez de apilar historial.
+ */
+export function navigate(path: string, opts: { replace?: boolean } = {}) {
+  if (path === window.location.pathname + window.location.hash) return;
+
+  const state = { inApp: true };
+  if (opts.replace) window.history.replaceState(window.history.state ?? state, "", path);
+  else window.history.pushState(state, "", path);
+
+  window.dispatchEvent(new Event(NAV_EVENT));
+}
+
+/** Vuelve atrás si la entrada actual la creó la app; si no (enlace directo), reemplaza por `fallback`. */
+export function navigateBack(fallback: string) {
+  if ((window.history.state as { inApp?: boolean } | null)?.inApp) window.history.back();
+  else navigate(fallback, { replace: true });
+}
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("popstate", onChange);
+  window.addEventListener(NAV_EVENT, onChange);
+  return () => {
+    window.removeEventListener("popstate", onChange);
+    window.removeEventListener(NAV_EVENT, onChange);
+  };
+}
+
+const getPathname = () => window.location.pathname;
+const getHash = () => window.location.hash;
+
+export function useRoute(): Route {
+  const pathname = useSyncExternalStore(subscribe, getPathname);
+  return parseRoute(pathname);
+}
+
+/** Fragmento actual (`#comment-…`), sin el `#`. */
+export function useHash() {
+  return useSyncExternalStore(subscribe, getHash).replace(/^#/, "");
+}
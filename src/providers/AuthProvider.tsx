@@ -1,6 +1,7 @@
 // src/providers/AuthProvider.tsx
 import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "../lib/supabaseClient";
+import { refreshProfiles } from "../hooks/useProfiles";
 
 type Profile = {
   id: string;
@@ -262,6 +263,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (error) throw error;
 
     setProfile((prev) => (prev ? { ...prev, display_name: clean } : prev));
+    // ✅ las menciones muestran el alias vigente
+    refreshProfiles();
   };
 
   const value = useMemo<AuthContextValue>(
@@ -3,8 +3,9 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
-  // agrega aquí otras si las usas:
-  // readonly VITE_CLOUDINARY_CLOUD_NAME: string
+  readonly VITE_CLOUDINARY_CLOUD_NAME?: string
+  readonly VITE_CLOUDINARY_SIGN_URL?: string
+  // agrega aquí otras si las usas
 }
 
 interface ImportMeta {
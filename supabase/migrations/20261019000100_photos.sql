@@ -0,0 +1,46 @@
+-- supabase/migrations/20261019000100_photos.sql
+-- Álbum: una fila por foto subida a Cloudinary (public_id).
+
+create table if not exists public.photos (
+  id uuid primary key default gen_random_uuid(),
+  public_id text not null unique,
+  album text not null default 'festival',
+  caption text,
+  taken_at timestamptz,
+  width integer check (width is null or width > 0),
+  height integer check (height is null or height > 0),
+  uploaded_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists photos_album_created_at_idx
+  on public.photos (album, created_at desc);
+
+alter table public.photos enable row level security;
+
+-- ✅ el álbum se ve igual que antes (también sin sesión)
+drop policy if exists "photos are readable" on public.photos;
+create policy "photos are readable"
+  on public.photos for select
+  to anon, authenticated
+  using (true);
+
+-- ✅ solo miembros registran fotos, y siempre a su nombre
+drop policy if exists "members insert own photos" on public.photos;
+create policy "members insert own photos"
+  on public.photos for insert
+  to authenticated
+  with check (uploaded_by = auth.uid());
+
+drop policy if exists "uploader updates own photos" on public.photos;
+create policy "uploader updates own photos"
+  on public.photos for update
+  to authenticated
+  using (uploaded_by = auth.uid())
+  with check (uploaded_by = auth.uid());
+
+drop policy if exists "uploader deletes own photos" on public.photos;
+create policy "uploader deletes own photos"
+  on public.photos for delete
+  to authenticated
+  using (uploaded_by = auth.uid());
@@ -0,0 +1,15 @@
+-- supabase/migrations/20261019000200_photo_comment_counts.sql
+-- Conteo de comentarios por foto (comments.photo_id = photos.public_id).
+-- security_invoker: respeta las políticas RLS de comments para quien consulta.
+
+create or replace view public.photo_comment_counts
+with (security_invoker = true) as
+select
+  c.photo_id,
+  count(*)::integer as comment_count
+from public.comments c
+group by c.photo_id;
+
+grant select on public.photo_comment_counts to anon, authenticated;
+
+create index if not exists comments_photo_id_idx on public.comments (photo_id);
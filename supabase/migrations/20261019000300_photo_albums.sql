@@ -0,0 +1,13 @@
+-- supabase/migrations/20261019000300_photo_albums.sql
+-- Álbumes disponibles (para /album/:album) con su número de fotos.
+
+create or replace view public.photo_albums
+with (security_invoker = true) as
+select
+  p.album,
+  count(*)::integer as photo_count,
+  max(p.created_at) as last_photo_at
+from public.photos p
+group by p.album;
+
+grant select on public.photo_albums to anon, authenticated;
@@ -0,0 +1,12 @@
+-- supabase/migrations/20261019000400_photo_feed.sql
+-- Fotos + total de comentarios, para paginar la galería ya ordenada en el servidor.
+
+create or replace view public.photo_feed
+with (security_invoker = true) as
+select
+  p.*,
+  coalesce(c.comment_count, 0) as comment_count
+from public.photos p
+left join public.photo_comment_counts c on c.photo_id = p.public_id;
+
+grant select on public.photo_feed to anon, authenticated;
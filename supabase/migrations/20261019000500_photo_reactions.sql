@@ -0,0 +1,56 @@
+-- supabase/migrations/20261019000500_photo_reactions.sql
+-- Reacciones de un toque por foto: set fijo de emojis, una de cada tipo por usuario.
+
+create table if not exists public.photo_reactions (
+  photo_id text not null references public.photos (public_id) on delete cascade,
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  emoji text not null check (emoji in ('❤️', '🔥', '😂', '😮', '👏')),
+  created_at timestamptz not null default now(),
+  -- ✅ la PK también hace que los DELETE de Realtime traigan photo_id + emoji
+  primary key (photo_id, user_id, emoji)
+);
+
+alter table public.photo_reactions enable row level security;
+
+drop policy if exists "reactions are readable" on public.photo_reactions;
+create policy "reactions are readable"
+  on public.photo_reactions for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "members react as themselves" on public.photo_reactions;
+create policy "members react as themselves"
+  on public.photo_reactions for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+drop policy if exists "members remove own reactions" on public.photo_reactions;
+create policy "members remove own reactions"
+  on public.photo_reactions for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+create or replace view public.photo_reaction_counts
+with (security_invoker = true) as
+select photo_id, emoji, count(*)::integer as reaction_count
+from public.photo_reactions
+group by photo_id, emoji;
+
+grant select on public.photo_reaction_counts to anon, authenticated;
+
+-- ✅ photo_feed: también total de reacciones (orden "Más gustadas")
+create or replace view public.photo_feed
+with (security_invoker = true) as
+select
+  p.*,
+  coalesce(c.comment_count, 0) as comment_count,
+  coalesce(r.reaction_count, 0) as reaction_count
+from public.photos p
+left join public.photo_comment_counts c on c.photo_id = p.public_id
+left join (
+  select photo_id, sum(reaction_count)::integer as reaction_count
+  from public.photo_reaction_counts
+  group by photo_id
+) r on r.photo_id = p.public_id;
+
+alter publication supabase_realtime add table public.photo_reactions;
@@ -0,0 +1,45 @@
+-- supabase/migrations/20261019000600_photo_tags.sql
+-- Etiquetas de personas en fotos, en un punto de la imagen (x/y relativos 0–1).
+
+create table if not exists public.photo_tags (
+  id uuid primary key default gen_random_uuid(),
+  photo_id text not null references public.photos (public_id) on delete cascade,
+  tagged_user_id uuid not null references public.profiles (id) on delete cascade,
+  tagged_by uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  x real not null check (x >= 0 and x <= 1),
+  y real not null check (y >= 0 and y <= 1),
+  created_at timestamptz not null default now(),
+  unique (photo_id, tagged_user_id)
+);
+
+create index if not exists photo_tags_tagged_user_idx on public.photo_tags (tagged_user_id);
+
+alter table public.photo_tags enable row level security;
+
+drop policy if exists "tags are readable" on public.photo_tags;
+create policy "tags are readable"
+  on public.photo_tags for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "members tag as themselves" on public.photo_tags;
+create policy "members tag as themselves"
+  on public.photo_tags for insert
+  to authenticated
+  with check (tagged_by = auth.uid());
+
+-- ✅ quien sale en la foto puede quitarse la etiqueta; quien la puso, también
+drop policy if exists "tagged user or tagger removes tag" on public.photo_tags;
+create policy "tagged user or tagger removes tag"
+  on public.photo_tags for delete
+  to authenticated
+  using (tagged_user_id = auth.uid() or tagged_by = auth.uid());
+
+-- "Fotos donde salgo": photo_feed filtrable por persona etiquetada
+create or replace view public.tagged_photo_feed
+with (security_invoker = true) as
+select f.*, t.tagged_user_id
+from public.photo_feed f
+join public.photo_tags t on t.photo_id = f.public_id;
+
+grant select on public.tagged_photo_feed to anon, authenticated;
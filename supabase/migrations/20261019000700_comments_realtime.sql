@@ -0,0 +1,4 @@
+-- supabase/migrations/20261019000700_comments_realtime.sql
+-- Comentarios en vivo en el panel de PhotoModal (INSERT/DELETE por Realtime).
+
+alter publication supabase_realtime add table public.comments;
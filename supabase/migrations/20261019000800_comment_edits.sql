@@ -0,0 +1,94 @@
+-- supabase/migrations/20261019000800_comment_edits.sql
+-- Edición de comentarios: marca edited_at, guarda cada versión anterior y
+-- limita la edición a una ventana configurable (app_settings).
+
+create table if not exists public.app_settings (
+  key text primary key,
+  value jsonb not null
+);
+
+alter table public.app_settings enable row level security;
+
+drop policy if exists "settings are readable" on public.app_settings;
+create policy "settings are readable"
+  on public.app_settings for select
+  to anon, authenticated
+  using (true);
+
+-- minutos desde created_at durante los que el autor puede editar (null = sin límite)
+insert into public.app_settings (key, value)
+values ('comment_edit_window_minutes', '15'::jsonb)
+on conflict (key) do nothing;
+
+alter table public.comments add column if not exists edited_at timestamptz;
+
+create table if not exists public.comment_revisions (
+  id uuid primary key default gen_random_uuid(),
+  comment_id uuid not null references public.comments (id) on delete cascade,
+  body text not null,
+  edited_by uuid references public.profiles (id) on delete set null,
+  edited_at timestamptz not null default now()
+);
+
+create index if not exists comment_revisions_comment_idx
+  on public.comment_revisions (comment_id, edited_at);
+
+alter table public.comment_revisions enable row level security;
+
+drop policy if exists "revisions are readable" on public.comment_revisions;
+create policy "revisions are readable"
+  on public.comment_revisions for select
+  to anon, authenticated
+  using (true);
+
+-- ✅ sin políticas de insert/update/delete: solo el trigger escribe revisiones
+
+drop policy if exists "owners update own comments" on public.comments;
+create policy "owners update own comments"
+  on public.comments for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create or replace function public.comments_before_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  window_minutes integer;
+begin
+  -- solo el texto es editable
+  if new.photo_id is distinct from old.photo_id
+    or new.parent_id is distinct from old.parent_id
+    or new.user_id is distinct from old.user_id
+    or new.created_at is distinct from old.created_at then
+    raise exception 'Solo se puede editar el texto del comentario';
+  end if;
+
+  if new.body is not distinct from old.body then
+    return new;
+  end if;
+
+  select (value #>> '{}')::integer into window_minutes
+  from public.app_settings
+  where key = 'comment_edit_window_minutes';
+
+  if window_minutes is not null
+    and now() > old.created_at + make_interval(mins => window_minutes) then
+    raise exception 'El tiempo para editar este comentario terminó (% min)', window_minutes;
+  end if;
+
+  insert into public.comment_revisions (comment_id, body, edited_by, edited_at)
+  values (old.id, old.body, auth.uid(), now());
+
+  new.edited_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists comments_before_update on public.comments;
+create trigger comments_before_update
+  before update on public.comments
+  for each row execute function public.comments_before_update();
@@ -0,0 +1,154 @@
+-- supabase/migrations/20261019000900_comment_soft_delete.sql
+-- Borrado de comentarios sin perder respuestas ajenas:
+-- - con respuestas → tombstone ("[comentario eliminado]": deleted_at + body vacío)
+-- - sin respuestas → delete real, y se limpian los tombstones que quedan sin hijos
+
+alter table public.comments add column if not exists deleted_at timestamptz;
+
+-- ✅ la edición (20261019000800) ignora el paso a tombstone y bloquea editar uno.
+-- deleted_at solo lo pone delete_comment (marca local de la transacción): un
+-- update directo del cliente no puede dejar tombstones sin respuestas.
+create or replace function public.comments_before_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  window_minutes integer;
+begin
+  if old.deleted_at is not null then
+    raise exception 'El comentario fue eliminado';
+  end if;
+
+  if new.photo_id is distinct from old.photo_id
+    or new.parent_id is distinct from old.parent_id
+    or new.user_id is distinct from old.user_id
+    or new.created_at is distinct from old.created_at then
+    raise exception 'Solo se puede editar el texto del comentario';
+  end if;
+
+  if new.deleted_at is distinct from old.deleted_at
+    and current_setting('app.comment_tombstone', true) is distinct from 'on' then
+    raise exception 'Usa delete_comment para eliminar comentarios';
+  end if;
+
+  if new.deleted_at is not null then
+    -- tombstone: sin texto ni historial
+    delete from public.comment_revisions where comment_id = old.id;
+    new.body := '';
+    return new;
+  end if;
+
+  if new.body is not distinct from old.body then
+    return new;
+  end if;
+
+  select (value #>> '{}')::integer into window_minutes
+  from public.app_settings
+  where key = 'comment_edit_window_minutes';
+
+  if window_minutes is not null
+    and now() > old.created_at + make_interval(mins => window_minutes) then
+    raise exception 'El tiempo para editar este comentario terminó (% min)', window_minutes;
+  end if;
+
+  insert into public.comment_revisions (comment_id, body, edited_by, edited_at)
+  values (old.id, old.body, auth.uid(), now());
+
+  new.edited_at := now();
+  return new;
+end;
+$$;
+
+-- Elimina un comentario propio. Devuelve 'soft' (tombstone) o 'hard'.
+create or replace function public.delete_comment(p_comment_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.comments%rowtype;
+begin
+  select * into target from public.comments where id = p_comment_id;
+
+  if not found then
+    raise exception 'Comentario no encontrado';
+  end if;
+  if target.user_id is distinct from auth.uid() then
+    raise exception 'Solo puedes eliminar tus comentarios';
+  end if;
+  if target.deleted_at is not null then
+    return 'soft';
+  end if;
+
+  if exists (select 1 from public.comments where parent_id = p_comment_id) then
+    perform set_config('app.comment_tombstone', 'on', true);
+    update public.comments set deleted_at = now() where id = p_comment_id;
+    perform set_config('app.comment_tombstone', 'off', true);
+    return 'soft';
+  end if;
+
+  delete from public.comments where id = p_comment_id;
+  return 'hard';
+end;
+$$;
+
+grant execute on function public.delete_comment(uuid) to authenticated;
+
+-- ✅ el delete directo (policy de dueño) no puede llevarse respuestas ajenas: con
+-- respuestas se elimina vía delete_comment (tombstone). Solo al nivel superior:
+-- los borrados en cascada (p. ej. al eliminar un perfil) siguen funcionando.
+create or replace function public.comments_before_delete()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if pg_trigger_depth() = 1
+    and exists (select 1 from public.comments c where c.parent_id = old.id) then
+    raise exception 'El comentario tiene respuestas: usa delete_comment';
+  end if;
+  return old;
+end;
+$$;
+
+drop trigger if exists comments_before_delete on public.comments;
+create trigger comments_before_delete
+  before delete on public.comments
+  for each row execute function public.comments_before_delete();
+
+-- ✅ al desaparecer la última respuesta, el tombstone padre también se va (en cadena)
+create or replace function public.comments_after_delete()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.parent_id is not null then
+    delete from public.comments p
+    where p.id = old.parent_id
+      and p.deleted_at is not null
+      and not exists (select 1 from public.comments c where c.parent_id = p.id);
+  end if;
+  return old;
+end;
+$$;
+
+drop trigger if exists comments_after_delete on public.comments;
+create trigger comments_after_delete
+  after delete on public.comments
+  for each row execute function public.comments_after_delete();
+
+-- tombstones no cuentan para "Más comentadas"
+create or replace view public.photo_comment_counts
+with (security_invoker = true) as
+select
+  c.photo_id,
+  count(*)::integer as comment_count
+from public.comments c
+where c.deleted_at is null
+group by c.photo_id;
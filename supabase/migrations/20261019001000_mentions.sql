@@ -0,0 +1,102 @@
+-- supabase/migrations/20261019001000_mentions.sql
+-- @menciones: el cuerpo guarda tokens <@uuid> (sobreviven a cambios de alias)
+-- y cada mención nueva deja una fila en notifications para el mencionado.
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  kind text not null check (kind in ('mention')),
+  actor_id uuid references public.profiles (id) on delete set null,
+  photo_id text,
+  comment_id uuid references public.comments (id) on delete cascade,
+  message_id uuid references public.messages (id) on delete cascade,
+  -- conversación relacionada (el otro participante del DM)
+  peer_id uuid references public.profiles (id) on delete cascade,
+  snippet text,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_created_idx
+  on public.notifications (user_id, created_at desc);
+
+alter table public.notifications enable row level security;
+
+drop policy if exists "users read own notifications" on public.notifications;
+create policy "users read own notifications"
+  on public.notifications for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "users mark own notifications" on public.notifications;
+create policy "users mark own notifications"
+  on public.notifications for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- ✅ sin insert desde el cliente: solo los triggers crean notificaciones
+
+create or replace function public.mentioned_user_ids(body text)
+returns setof uuid
+language sql
+immutable
+as $$
+  select distinct (m[1])::uuid
+  -- ✅ UUID estricto: un texto como <@---…> no debe abortar el insert al castear
+  from regexp_matches(
+    coalesce(body, ''),
+    '<@([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})>',
+    'g'
+  ) as m;
+$$;
+
+create or replace function public.notify_comment_mentions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.deleted_at is not null then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, kind, actor_id, photo_id, comment_id, snippet)
+  select m.id, 'mention', new.user_id, new.photo_id, new.id, left(new.body, 200)
+  from public.mentioned_user_ids(new.body) as m(id)
+  join public.profiles p on p.id = m.id
+  where m.id <> new.user_id
+    -- en una edición, solo las menciones nuevas
+    and (tg_op = 'INSERT' or m.id not in (select public.mentioned_user_ids(old.body)));
+
+  return new;
+end;
+$$;
+
+drop trigger if exists comments_notify_mentions on public.comments;
+create trigger comments_notify_mentions
+  after insert or update of body on public.comments
+  for each row execute function public.notify_comment_mentions();
+
+-- en DMs solo se notifica a quien participa de la conversación
+create or replace function public.notify_message_mentions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.notifications (user_id, kind, actor_id, message_id, peer_id, snippet)
+  select m.id, 'mention', new.sender_id, new.id, new.sender_id, left(new.body, 200)
+  from public.mentioned_user_ids(new.body) as m(id)
+  where m.id = new.receiver_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_notify_mentions on public.messages;
+create trigger messages_notify_mentions
+  after insert on public.messages
+  for each row execute function public.notify_message_mentions();
@@ -0,0 +1,93 @@
+-- supabase/migrations/20261019001100_notifications.sql
+-- Centro de notificaciones: además de menciones, respuestas a mis
+-- comentarios y DMs recibidos. Llegan en vivo vía Realtime.
+
+alter table public.notifications drop constraint if exists notifications_kind_check;
+alter table public.notifications
+  add constraint notifications_kind_check check (kind in ('mention', 'reply', 'message'));
+
+create index if not exists notifications_user_unread_idx
+  on public.notifications (user_id)
+  where read_at is null;
+
+-- ✅ el destinatario solo puede marcar como leída (nada más de la fila)
+create or replace function public.notifications_before_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (to_jsonb(new) - 'read_at') is distinct from (to_jsonb(old) - 'read_at') then
+    raise exception 'Solo se puede marcar la notificación como leída';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists notifications_before_update on public.notifications;
+create trigger notifications_before_update
+  before update on public.notifications
+  for each row execute function public.notifications_before_update();
+
+-- respuesta a un comentario → autor del comentario padre
+-- (si además lo menciona, ya recibe la notificación de mención)
+create or replace function public.notify_comment_reply()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  parent_author uuid;
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  select user_id into parent_author
+  from public.comments
+  where id = new.parent_id and deleted_at is null;
+
+  if parent_author is null
+     or parent_author = new.user_id
+     or parent_author in (select public.mentioned_user_ids(new.body)) then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, kind, actor_id, photo_id, comment_id, snippet)
+  values (parent_author, 'reply', new.user_id, new.photo_id, new.id, left(new.body, 200));
+
+  return new;
+end;
+$$;
+
+drop trigger if exists comments_notify_reply on public.comments;
+create trigger comments_notify_reply
+  after insert on public.comments
+  for each row execute function public.notify_comment_reply();
+
+-- DM recibido → destinatario (salvo que el mensaje lo mencione: ya hay notificación)
+create or replace function public.notify_message_received()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.receiver_id = new.sender_id
+     or new.receiver_id in (select public.mentioned_user_ids(new.body)) then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, kind, actor_id, message_id, peer_id, snippet)
+  values (new.receiver_id, 'message', new.sender_id, new.id, new.sender_id, left(new.body, 200));
+
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_notify_received on public.messages;
+create trigger messages_notify_received
+  after insert on public.messages
+  for each row execute function public.notify_message_received();
+
+alter publication supabase_realtime add table public.notifications;
@@ -0,0 +1,70 @@
+-- supabase/migrations/20261019001200_dm_reads.sql
+-- Estado de lectura de DMs: hasta cuándo leyó cada usuario cada conversación.
+-- Alimenta los contadores sin leer y el "visto" de los mensajes enviados.
+
+create table if not exists public.dm_reads (
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  peer_id uuid not null references public.profiles (id) on delete cascade,
+  last_read_at timestamptz not null default now(),
+  primary key (user_id, peer_id)
+);
+
+alter table public.dm_reads enable row level security;
+
+-- ✅ lo ven ambos participantes (el otro lo necesita para el "visto")
+drop policy if exists "participants read dm reads" on public.dm_reads;
+create policy "participants read dm reads"
+  on public.dm_reads for select
+  to authenticated
+  using (auth.uid() in (user_id, peer_id));
+
+-- sin insert/update directo: solo vía mark_dm_read (hora del servidor, nunca retrocede)
+
+create or replace function public.mark_dm_read(p_peer_id uuid)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me uuid := auth.uid();
+  read_at timestamptz;
+begin
+  if me is null then
+    raise exception 'No autenticado';
+  end if;
+
+  insert into public.dm_reads (user_id, peer_id, last_read_at)
+  values (me, p_peer_id, now())
+  on conflict (user_id, peer_id)
+    do update set last_read_at = greatest(public.dm_reads.last_read_at, excluded.last_read_at)
+  returning last_read_at into read_at;
+
+  -- leer la conversación también da por vistas sus notificaciones
+  update public.notifications n
+  set read_at = now()
+  where n.user_id = me and n.peer_id = p_peer_id and n.read_at is null;
+
+  return read_at;
+end;
+$$;
+
+-- mensajes recibidos después de mi última lectura, por remitente
+create or replace function public.dm_unread_counts()
+returns table (peer_id uuid, unread bigint)
+language sql
+stable
+as $$
+  select m.sender_id, count(*)
+  from public.messages m
+  left join public.dm_reads r
+    on r.user_id = auth.uid() and r.peer_id = m.sender_id
+  where m.receiver_id = auth.uid()
+    and m.created_at > coalesce(r.last_read_at, '-infinity'::timestamptz)
+  group by m.sender_id;
+$$;
+
+create index if not exists messages_receiver_created_idx
+  on public.messages (receiver_id, created_at);
+
+alter publication supabase_realtime add table public.dm_reads;
@@ -0,0 +1,21 @@
+-- supabase/migrations/20261019001300_dm_conversations.sql
+-- Bandeja del chat: una fila por conversación con su último mensaje.
+
+create or replace function public.dm_conversations()
+returns table (peer_id uuid, last_message_id uuid, last_sender_id uuid, last_body text, last_at timestamptz)
+language sql
+stable
+as $$
+  select distinct on (c.peer) c.peer, c.id, c.sender_id, c.body, c.created_at
+  from (
+    select
+      m.*,
+      case when m.sender_id = auth.uid() then m.receiver_id else m.sender_id end as peer
+    from public.messages m
+    where auth.uid() in (m.sender_id, m.receiver_id)
+  ) c
+  order by c.peer, c.created_at desc;
+$$;
+
+create index if not exists messages_sender_created_idx
+  on public.messages (sender_id, created_at);
@@ -0,0 +1,462 @@
+-- supabase/migrations/20261019001400_group_chats.sql
+-- Chats de grupo y el canal general del festival (todos los miembros).
+-- Un mensaje va a un usuario (receiver_id, DM) o a una conversación
+-- (conversation_id, N participantes), nunca a ambos.
+
+create table if not exists public.conversations (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('group', 'channel')),
+  name text not null check (char_length(btrim(name)) between 1 and 60),
+  created_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- ✅ un solo canal general
+create unique index if not exists conversations_single_channel_idx
+  on public.conversations (kind)
+  where kind = 'channel';
+
+create table if not exists public.conversation_members (
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  role text not null default 'member' check (role in ('admin', 'member')),
+  joined_at timestamptz not null default now(),
+  -- estado de lectura del grupo (equivalente a dm_reads)
+  last_read_at timestamptz not null default now(),
+  primary key (conversation_id, user_id)
+);
+
+create index if not exists conversation_members_user_idx
+  on public.conversation_members (user_id);
+
+create or replace function public.is_conversation_member(p_conversation_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.conversation_members
+    where conversation_id = p_conversation_id and user_id = auth.uid()
+  );
+$$;
+
+create or replace function public.is_conversation_admin(p_conversation_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.conversation_members
+    where conversation_id = p_conversation_id and user_id = auth.uid() and role = 'admin'
+  );
+$$;
+
+-- ✅ un grupo y su lista de miembros solo los ven sus miembros (la membresía
+-- la gestionan los admins); los cambios solo vía RPC (reglas de admin abajo)
+alter table public.conversations enable row level security;
+alter table public.conversation_members enable row level security;
+
+drop policy if exists "members see conversations" on public.conversations;
+create policy "members see conversations"
+  on public.conversations for select
+  to authenticated
+  using (public.is_conversation_member(id));
+
+drop policy if exists "members see conversation members" on public.conversation_members;
+create policy "members see conversation members"
+  on public.conversation_members for select
+  to authenticated
+  using (public.is_conversation_member(conversation_id));
+
+-- ===== mensajes con N participantes =====
+
+alter table public.messages
+  add column if not exists conversation_id uuid references public.conversations (id) on delete cascade;
+
+alter table public.messages alter column receiver_id drop not null;
+
+alter table public.messages drop constraint if exists messages_target_check;
+alter table public.messages
+  add constraint messages_target_check check ((receiver_id is null) <> (conversation_id is null));
+
+create index if not exists messages_conversation_created_idx
+  on public.messages (conversation_id, created_at);
+
+drop policy if exists "members read conversation messages" on public.messages;
+create policy "members read conversation messages"
+  on public.messages for select
+  to authenticated
+  using (conversation_id is not null and public.is_conversation_member(conversation_id));
+
+drop policy if exists "members send conversation messages" on public.messages;
+create policy "members send conversation messages"
+  on public.messages for insert
+  to authenticated
+  with check (
+    sender_id = auth.uid()
+    and conversation_id is not null
+    and public.is_conversation_member(conversation_id)
+  );
+
+-- ✅ aunque otra policy de insert admita el mensaje, escribir en un grupo exige ser miembro
+create or replace function public.messages_before_insert()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.conversation_id is not null and not exists (
+    select 1 from public.conversation_members
+    where conversation_id = new.conversation_id and user_id = new.sender_id
+  ) then
+    raise exception 'No eres miembro de esta conversación';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_before_insert on public.messages;
+create trigger messages_before_insert
+  before insert on public.messages
+  for each row execute function public.messages_before_insert();
+
+-- la bandeja de DMs ignora los mensajes de grupo
+create or replace function public.dm_conversations()
+returns table (peer_id uuid, last_message_id uuid, last_sender_id uuid, last_body text, last_at timestamptz)
+language sql
+stable
+as $$
+  select distinct on (c.peer) c.peer, c.id, c.sender_id, c.body, c.created_at
+  from (
+    select
+      m.*,
+      case when m.sender_id = auth.uid() then m.receiver_id else m.sender_id end as peer
+    from public.messages m
+    where m.conversation_id is null
+      and auth.uid() in (m.sender_id, m.receiver_id)
+  ) c
+  order by c.peer, c.created_at desc;
+$$;
+
+-- mis grupos/canal con su último mensaje y lo no leído
+create or replace function public.my_conversations()
+returns table (
+  id uuid,
+  kind text,
+  name text,
+  role text,
+  member_count bigint,
+  last_message_id uuid,
+  last_sender_id uuid,
+  last_body text,
+  last_at timestamptz,
+  unread bigint
+)
+language sql
+stable
+as $$
+  select
+    c.id,
+    c.kind,
+    c.name,
+    me.role,
+    (select count(*) from public.conversation_members x where x.conversation_id = c.id),
+    last.id,
+    last.sender_id,
+    last.body,
+    coalesce(last.created_at, c.created_at),
+    (
+      select count(*) from public.messages u
+      where u.conversation_id = c.id
+        and u.sender_id <> auth.uid()
+        and u.created_at > me.last_read_at
+    )
+  from public.conversation_members me
+  join public.conversations c on c.id = me.conversation_id
+  left join lateral (
+    select m.id, m.sender_id, m.body, m.created_at
+    from public.messages m
+    where m.conversation_id = c.id
+    order by m.created_at desc
+    limit 1
+  ) last on true
+  where me.user_id = auth.uid();
+$$;
+
+create or replace function public.mark_conversation_read(p_conversation_id uuid)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  read_at timestamptz;
+begin
+  update public.conversation_members
+  set last_read_at = greatest(last_read_at, now())
+  where conversation_id = p_conversation_id and user_id = auth.uid()
+  returning last_read_at into read_at;
+
+  update public.notifications n
+  set read_at = now()
+  where n.user_id = auth.uid() and n.conversation_id = p_conversation_id and n.read_at is null;
+
+  return read_at;
+end;
+$$;
+
+-- ===== gestión de grupos =====
+
+create or replace function public.create_group(p_name text, p_member_ids uuid[] default '{}')
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me uuid := auth.uid();
+  new_id uuid;
+begin
+  if me is null then
+    raise exception 'No autenticado';
+  end if;
+
+  insert into public.conversations (kind, name, created_by)
+  values ('group', btrim(p_name), me)
+  returning id into new_id;
+
+  insert into public.conversation_members (conversation_id, user_id, role)
+  values (new_id, me, 'admin');
+
+  insert into public.conversation_members (conversation_id, user_id)
+  select new_id, p.id
+  from public.profiles p
+  where p.id = any (p_member_ids) and p.id <> me
+  on conflict do nothing;
+
+  return new_id;
+end;
+$$;
+
+-- solo el canal general admite entrar por cuenta propia; a un grupo te añade un admin
+create or replace function public.join_conversation(p_conversation_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'No autenticado';
+  end if;
+
+  if not exists (select 1 from public.conversations where id = p_conversation_id and kind = 'channel') then
+    raise exception 'Solo un admin puede añadirte a este grupo';
+  end if;
+
+  insert into public.conversation_members (conversation_id, user_id)
+  values (p_conversation_id, auth.uid())
+  on conflict do nothing;
+end;
+$$;
+
+create or replace function public.leave_conversation(p_conversation_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (select 1 from public.conversations where id = p_conversation_id and kind = 'channel') then
+    raise exception 'No se puede salir del canal general';
+  end if;
+
+  delete from public.conversation_members
+  where conversation_id = p_conversation_id and user_id = auth.uid();
+
+  -- ✅ si se fue el último admin, el miembro más antiguo pasa a admin
+  if not exists (
+    select 1 from public.conversation_members
+    where conversation_id = p_conversation_id and role = 'admin'
+  ) then
+    update public.conversation_members
+    set role = 'admin'
+    where (conversation_id, user_id) = (
+      select conversation_id, user_id from public.conversation_members
+      where conversation_id = p_conversation_id
+      order by joined_at
+      limit 1
+    );
+  end if;
+
+  -- grupo vacío → se borra (con sus mensajes)
+  delete from public.conversations c
+  where c.id = p_conversation_id
+    and not exists (select 1 from public.conversation_members m where m.conversation_id = c.id);
+end;
+$$;
+
+create or replace function public.add_conversation_member(p_conversation_id uuid, p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_conversation_admin(p_conversation_id) then
+    raise exception 'Solo un admin puede añadir miembros';
+  end if;
+
+  insert into public.conversation_members (conversation_id, user_id)
+  values (p_conversation_id, p_user_id)
+  on conflict do nothing;
+end;
+$$;
+
+create or replace function public.remove_conversation_member(p_conversation_id uuid, p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (select 1 from public.conversations where id = p_conversation_id and kind = 'channel') then
+    raise exception 'El canal general incluye a todos los miembros';
+  end if;
+  if not public.is_conversation_admin(p_conversation_id) then
+    raise exception 'Solo un admin puede quitar miembros';
+  end if;
+  if p_user_id = auth.uid() then
+    raise exception 'Para irte usa "Salir del grupo"';
+  end if;
+
+  delete from public.conversation_members
+  where conversation_id = p_conversation_id and user_id = p_user_id;
+end;
+$$;
+
+create or replace function public.set_conversation_role(p_conversation_id uuid, p_user_id uuid, p_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_role is null or p_role not in ('admin', 'member') then
+    raise exception 'Rol no válido: %', p_role;
+  end if;
+  if not public.is_conversation_admin(p_conversation_id) then
+    raise exception 'Solo un admin puede cambiar roles';
+  end if;
+
+  -- ✅ igual que leave_conversation: el grupo nunca se queda sin admin
+  if p_role = 'member' and not exists (
+    select 1 from public.conversation_members
+    where conversation_id = p_conversation_id and role = 'admin' and user_id <> p_user_id
+  ) then
+    raise exception 'El grupo necesita al menos un admin';
+  end if;
+
+  update public.conversation_members
+  set role = p_role
+  where conversation_id = p_conversation_id and user_id = p_user_id;
+end;
+$$;
+
+-- ===== canal general: todos los perfiles, presentes y futuros =====
+
+insert into public.conversations (kind, name)
+values ('channel', 'Festival')
+on conflict do nothing;
+
+insert into public.conversation_members (conversation_id, user_id)
+select c.id, p.id
+from public.conversations c
+cross join public.profiles p
+where c.kind = 'channel'
+on conflict do nothing;
+
+create or replace function public.profiles_join_channel()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.conversation_members (conversation_id, user_id)
+  select c.id, new.id
+  from public.conversations c
+  where c.kind = 'channel'
+  on conflict do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_join_channel on public.profiles;
+create trigger profiles_join_channel
+  after insert on public.profiles
+  for each row execute function public.profiles_join_channel();
+
+-- ===== notificaciones en conversaciones =====
+
+alter table public.notifications
+  add column if not exists conversation_id uuid references public.conversations (id) on delete cascade;
+
+-- en grupos se notifica a los miembros mencionados; en DMs, al destinatario
+create or replace function public.notify_message_mentions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.notifications (user_id, kind, actor_id, message_id, peer_id, conversation_id, snippet)
+  select
+    m.id,
+    'mention',
+    new.sender_id,
+    new.id,
+    case when new.conversation_id is null then new.sender_id end,
+    new.conversation_id,
+    left(new.body, 200)
+  from public.mentioned_user_ids(new.body) as m(id)
+  where m.id <> new.sender_id
+    and (
+      (new.conversation_id is null and m.id = new.receiver_id)
+      or exists (
+        select 1 from public.conversation_members cm
+        where cm.conversation_id = new.conversation_id and cm.user_id = m.id
+      )
+    );
+
+  return new;
+end;
+$$;
+
+-- "te envió un mensaje" solo para DMs (en grupos sería ruido)
+create or replace function public.notify_message_received()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.receiver_id is null
+     or new.receiver_id = new.sender_id
+     or new.receiver_id in (select public.mentioned_user_ids(new.body)) then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, kind, actor_id, message_id, peer_id, snippet)
+  values (new.receiver_id, 'message', new.sender_id, new.id, new.sender_id, left(new.body, 200));
+
+  return new;
+end;
+$$;
+
+alter publication supabase_realtime add table public.conversation_members;
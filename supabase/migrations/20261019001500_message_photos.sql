@@ -0,0 +1,6 @@
+-- supabase/migrations/20261019001500_message_photos.sql
+-- Fotos del álbum compartidas por chat: el mensaje referencia la foto
+-- (public_id) y el cuerpo queda como comentario / texto de vista previa.
+
+alter table public.messages
+  add column if not exists photo_id text references public.photos (public_id) on delete set null;
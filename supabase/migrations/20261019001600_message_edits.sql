@@ -0,0 +1,105 @@
+-- supabase/migrations/20261019001600_message_edits.sql
+-- Mensajes del chat: editar (edited_at), eliminar (tombstone: deleted_at +
+-- cuerpo vacío) y responder citando otro mensaje de la misma conversación.
+
+alter table public.messages add column if not exists edited_at timestamptz;
+alter table public.messages add column if not exists deleted_at timestamptz;
+alter table public.messages
+  add column if not exists reply_to_id uuid references public.messages (id) on delete set null;
+
+drop policy if exists "senders update own messages" on public.messages;
+create policy "senders update own messages"
+  on public.messages for update
+  to authenticated
+  using (sender_id = auth.uid())
+  with check (sender_id = auth.uid());
+
+-- ✅ la cita debe ser de la misma conversación (mismo grupo o mismo par del DM)
+create or replace function public.messages_before_insert()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.conversation_id is not null and not exists (
+    select 1 from public.conversation_members
+    where conversation_id = new.conversation_id and user_id = new.sender_id
+  ) then
+    raise exception 'No eres miembro de esta conversación';
+  end if;
+
+  if new.reply_to_id is not null and not exists (
+    select 1 from public.messages r
+    where r.id = new.reply_to_id
+      and (
+        (new.conversation_id is not null and r.conversation_id = new.conversation_id)
+        or (
+          new.conversation_id is null
+          and r.conversation_id is null
+          and (r.sender_id, r.receiver_id) in ((new.sender_id, new.receiver_id), (new.receiver_id, new.sender_id))
+        )
+      )
+  ) then
+    raise exception 'Solo se puede responder a un mensaje de la misma conversación';
+  end if;
+
+  new.edited_at := null;
+  new.deleted_at := null;
+  return new;
+end;
+$$;
+
+create or replace function public.messages_before_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- foto/cita solo pasan a null (on delete set null de la fila referenciada)
+  if new.sender_id is distinct from old.sender_id
+    or new.receiver_id is distinct from old.receiver_id
+    or new.conversation_id is distinct from old.conversation_id
+    or new.created_at is distinct from old.created_at
+    or (new.photo_id is distinct from old.photo_id and new.photo_id is not null)
+    or (new.reply_to_id is distinct from old.reply_to_id and new.reply_to_id is not null) then
+    raise exception 'Solo se puede editar el texto del mensaje';
+  end if;
+
+  if old.deleted_at is not null then
+    if new.body is distinct from old.body or new.deleted_at is distinct from old.deleted_at then
+      raise exception 'El mensaje fue eliminado';
+    end if;
+    new.edited_at := old.edited_at;
+    return new;
+  end if;
+
+  if new.deleted_at is not null then
+    -- tombstone: sin texto, foto ni notificaciones con el texto viejo
+    delete from public.notifications where message_id = old.id;
+    new.body := '';
+    new.photo_id := null;
+    new.deleted_at := now();
+    new.edited_at := old.edited_at;
+    return new;
+  end if;
+
+  if new.body is not distinct from old.body then
+    new.edited_at := old.edited_at;
+    return new;
+  end if;
+
+  if btrim(new.body) = '' then
+    raise exception 'El mensaje no puede quedar vacío';
+  end if;
+
+  new.edited_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_before_update on public.messages;
+create trigger messages_before_update
+  before update on public.messages
+  for each row execute function public.messages_before_update();
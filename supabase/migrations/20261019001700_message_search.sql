@@ -0,0 +1,91 @@
+-- supabase/migrations/20261019001700_message_search.sql
+-- Búsqueda de texto completo en el chat: solo mensajes que puedo leer
+-- (mis DMs y mis grupos), con fragmento resaltado para la lista de resultados.
+
+-- ✅ las menciones <@uuid> no son texto: fuera del índice (los trozos del uuid
+-- coincidirían con búsquedas como "4f2a")
+create or replace function public.strip_mentions(body text)
+returns text
+language sql
+immutable
+as $$
+  select regexp_replace(
+    coalesce(body, ''),
+    '<@[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}>',
+    ' ',
+    'g'
+  );
+$$;
+
+-- para el fragmento: cada mención pasa a @nombre antes de recortar y resaltar
+create or replace function public.mentions_to_text(body text)
+returns text
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  m text[];
+  result text := coalesce(body, '');
+begin
+  for m in
+    select distinct r
+    from regexp_matches(
+      result,
+      '<@([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})>',
+      'g'
+    ) as r
+  loop
+    result := replace(
+      result,
+      '<@' || m[1] || '>',
+      '@' || coalesce((select p.display_name from public.profiles p where p.id = m[1]::uuid), 'Usuario')
+    );
+  end loop;
+  return result;
+end;
+$$;
+
+alter table public.messages
+  add column if not exists search tsvector
+  generated always as (to_tsvector('spanish', public.strip_mentions(body))) stored;
+
+create index if not exists messages_search_idx
+  on public.messages using gin (search);
+
+-- resaltado con chr(1)…chr(2): el cliente los convierte en <mark> (nunca HTML)
+create or replace function public.search_messages(p_query text, p_limit integer default 50)
+returns table (
+  id uuid,
+  sender_id uuid,
+  receiver_id uuid,
+  conversation_id uuid,
+  created_at timestamptz,
+  snippet text
+)
+language sql
+stable
+as $$
+  select
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.conversation_id,
+    m.created_at,
+    ts_headline(
+      'spanish',
+      public.mentions_to_text(m.body),
+      q,
+      format('StartSel=%s, StopSel=%s, MinWords=6, MaxWords=18, ShortWord=2', chr(1), chr(2))
+    )
+  from public.messages m,
+    websearch_to_tsquery('spanish', p_query) q
+  where m.search @@ q
+    and m.deleted_at is null
+    and (
+      auth.uid() in (m.sender_id, m.receiver_id)
+      or (m.conversation_id is not null and public.is_conversation_member(m.conversation_id))
+    )
+  order by m.created_at desc
+  limit least(greatest(p_limit, 1), 200);
+$$;
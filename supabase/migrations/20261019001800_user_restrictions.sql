@@ -0,0 +1,233 @@
+-- supabase/migrations/20261019001800_user_restrictions.sql
+-- Bloquear y silenciar usuarios. Bloquear corta los DMs en ambos sentidos y
+-- oculta sus comentarios a quien bloquea; silenciar conserva los mensajes pero
+-- sin contadores sin leer ni notificaciones.
+
+create table if not exists public.user_restrictions (
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  target_id uuid not null references public.profiles (id) on delete cascade,
+  kind text not null check (kind in ('block', 'mute')),
+  created_at timestamptz not null default now(),
+  primary key (user_id, target_id),
+  check (user_id <> target_id)
+);
+
+alter table public.user_restrictions enable row level security;
+
+-- ✅ cada uno ve y gestiona solo su lista (el bloqueado no sabe que lo está)
+drop policy if exists "users read own restrictions" on public.user_restrictions;
+create policy "users read own restrictions"
+  on public.user_restrictions for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "users add own restrictions" on public.user_restrictions;
+create policy "users add own restrictions"
+  on public.user_restrictions for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+drop policy if exists "users change own restrictions" on public.user_restrictions;
+create policy "users change own restrictions"
+  on public.user_restrictions for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "users remove own restrictions" on public.user_restrictions;
+create policy "users remove own restrictions"
+  on public.user_restrictions for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- security definer: el bloqueado no puede leer la fila, pero el trigger sí la ve
+create or replace function public.is_blocked_between(a uuid, b uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.user_restrictions
+    where kind = 'block'
+      and ((user_id = a and target_id = b) or (user_id = b and target_id = a))
+  );
+$$;
+
+create or replace function public.is_restricted_by(p_user_id uuid, p_target_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.user_restrictions
+    where user_id = p_user_id and target_id = p_target_id
+  );
+$$;
+
+-- ✅ solo para los triggers (corren como definer): por RPC delatarían quién bloqueó a quién
+revoke execute on function public.is_blocked_between(uuid, uuid) from public, anon, authenticated;
+revoke execute on function public.is_restricted_by(uuid, uuid) from public, anon, authenticated;
+
+-- ✅ mismo trigger de 001600 + DMs cortados si hay bloqueo en cualquier sentido
+create or replace function public.messages_before_insert()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.conversation_id is not null and not exists (
+    select 1 from public.conversation_members
+    where conversation_id = new.conversation_id and user_id = new.sender_id
+  ) then
+    raise exception 'No eres miembro de esta conversación';
+  end if;
+
+  if new.conversation_id is null and public.is_blocked_between(new.sender_id, new.receiver_id) then
+    raise exception 'No puedes enviar mensajes a este usuario';
+  end if;
+
+  if new.reply_to_id is not null and not exists (
+    select 1 from public.messages r
+    where r.id = new.reply_to_id
+      and (
+        (new.conversation_id is not null and r.conversation_id = new.conversation_id)
+        or (
+          new.conversation_id is null
+          and r.conversation_id is null
+          and (r.sender_id, r.receiver_id) in ((new.sender_id, new.receiver_id), (new.receiver_id, new.sender_id))
+        )
+      )
+  ) then
+    raise exception 'Solo se puede responder a un mensaje de la misma conversación';
+  end if;
+
+  new.edited_at := null;
+  new.deleted_at := null;
+  return new;
+end;
+$$;
+
+-- comentarios de quien bloqueé: fuera de mis lecturas (restrictiva: se suma a la policy de lectura)
+drop policy if exists "hide comments from blocked users" on public.comments;
+create policy "hide comments from blocked users"
+  on public.comments as restrictive for select
+  to authenticated
+  using (
+    not exists (
+      select 1 from public.user_restrictions r
+      where r.user_id = auth.uid() and r.target_id = comments.user_id and r.kind = 'block'
+    )
+  );
+
+-- ✅ bloqueado o silenciado: la notificación ni se crea (vale para todos los triggers de aviso)
+create or replace function public.notifications_before_insert()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.actor_id is not null and public.is_restricted_by(new.user_id, new.actor_id) then
+    return null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists notifications_before_insert on public.notifications;
+create trigger notifications_before_insert
+  before insert on public.notifications
+  for each row execute function public.notifications_before_insert();
+
+-- al bloquear/silenciar, lo pendiente de esa persona se da por leído
+create or replace function public.user_restrictions_after_write()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.notifications n
+  set read_at = now()
+  where n.user_id = new.user_id and n.actor_id = new.target_id and n.read_at is null;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists user_restrictions_after_write on public.user_restrictions;
+create trigger user_restrictions_after_write
+  after insert or update on public.user_restrictions
+  for each row execute function public.user_restrictions_after_write();
+
+-- sin leer: no cuentan los remitentes bloqueados o silenciados
+create or replace function public.dm_unread_counts()
+returns table (peer_id uuid, unread bigint)
+language sql
+stable
+as $$
+  select m.sender_id, count(*)
+  from public.messages m
+  left join public.dm_reads r
+    on r.user_id = auth.uid() and r.peer_id = m.sender_id
+  where m.receiver_id = auth.uid()
+    and m.created_at > coalesce(r.last_read_at, '-infinity'::timestamptz)
+    and not exists (
+      select 1 from public.user_restrictions x
+      where x.user_id = auth.uid() and x.target_id = m.sender_id
+    )
+  group by m.sender_id;
+$$;
+
+create or replace function public.my_conversations()
+returns table (
+  id uuid,
+  kind text,
+  name text,
+  role text,
+  member_count bigint,
+  last_message_id uuid,
+  last_sender_id uuid,
+  last_body text,
+  last_at timestamptz,
+  unread bigint
+)
+language sql
+stable
+as $$
+  select
+    c.id,
+    c.kind,
+    c.name,
+    me.role,
+    (select count(*) from public.conversation_members x where x.conversation_id = c.id),
+    last.id,
+    last.sender_id,
+    last.body,
+    coalesce(last.created_at, c.created_at),
+    (
+      select count(*) from public.messages u
+      where u.conversation_id = c.id
+        and u.sender_id <> auth.uid()
+        and u.created_at > me.last_read_at
+        and not exists (
+          select 1 from public.user_restrictions x
+          where x.user_id = auth.uid() and x.target_id = u.sender_id
+        )
+    )
+  from public.conversation_members me
+  join public.conversations c on c.id = me.conversation_id
+  left join lateral (
+    select m.id, m.sender_id, m.body, m.created_at
+    from public.messages m
+    where m.conversation_id = c.id
+    order by m.created_at desc
+    limit 1
+  ) last on true
+  where me.user_id = auth.uid();
+$$;
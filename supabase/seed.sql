@@ -0,0 +1,40 @@
+-- supabase/seed.sql
+-- Fotos originales del álbum (antes hardcodeadas en src/data/photos.ts).
+-- created_at creciente para conservar el orden "Recientes" de siempre.
+
+insert into public.photos (public_id, album, created_at)
+select t.public_id, 'festival', timestamptz '2024-01-01 00:00:00+00' + t.ord * interval '1 minute'
+from unnest(array[
+    '_JRG8610_k0pfqi',
+    '_JRG8626_gbg070',
+    '_JRG8621_sivshd',
+    '_JRG8630_d6ejek',
+    '_JRG8646_za8ro0',
+    '_JRG8643_cpiccv',
+    '_JRG8650_ta1z3u',
+    '_JRG8660_eqqu8n',
+    '_JRG8669_uibugs',
+    '_JRG8664_dpjbpd',
+    '_JRG8656_dx1dar',
+    '_JRG8680_mxi8ch',
+    '_JRG8687_b0bps6',
+    '_JRG8666_bitd07',
+    '_JRG8692_na8m04',
+    '_JRG8685_lbwtpy',
+    '_JRG8673_syscjf',
+    '_JRG8704_zyviv5',
+    '_JRG8716_yixq1n',
+    '_JRG8697_erdqq3',
+    '_JRG8700_wuqmkv',
+    '_JRG8736_x4qdzq',
+    '_JRG8762_ozdrp8',
+    '_JRG8725_xhovb8',
+    '_JRG8748_sdy3um',
+    '_JRG8730_jjyvsd',
+    '_JRG8741_nlxkqg',
+    '_JRG8738_pk80i4',
+    '_JRG8751_s4hczo',
+    '_JRG8755_vjkdlc',
+    '_JRG8768_zgjyww'
+]) with ordinality as t(public_id, ord)
+on conflict (public_id) do nothing;
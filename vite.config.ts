@@ -1,7 +1,39 @@
 
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { buildUploadSignature } from './netlify/lib/cloudinarySign'
 
-export default defineConfig({
-  plugins: [react()],
+// Stand-in local de netlify/functions/sign-upload.ts (solo `vite dev`, sin verificar sesión)
+function devSignUpload(env: Record<string, string>): Plugin {
+  return {
+    name: 'dev-sign-upload',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use('/api/sign-upload', (req, res) => {
+        const cloudName = env.CLOUDINARY_CLOUD_NAME || env.VITE_CLOUDINARY_CLOUD_NAME
+        const apiKey = env.CLOUDINARY_API_KEY
+        const apiSecret = env.CLOUDINARY_API_SECRET
+
+        if (req.method !== 'POST') {
+          res.statusCode = 405
+          return res.end('Method not allowed')
+        }
+        if (!cloudName || !apiKey || !apiSecret) {
+          res.statusCode = 500
+          return res.end('Set CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY and CLOUDINARY_API_SECRET in .env')
+        }
+
+        res.setHeader('Content-Type', 'application/json')
+        res.end(JSON.stringify(buildUploadSignature({ cloudName, apiKey, apiSecret })))
+      })
+    },
+  }
+}
+
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), '')
+
+  return {
+    plugins: [react(), devSignUpload(env)],
+  }
 })